@@ -1,21 +1,58 @@
 import {
+  ClipboardEvent,
+  DragEvent,
   FormEvent,
+  Fragment,
+  ReactNode,
   useCallback,
   useEffect,
+  useLayoutEffect,
   useMemo,
   useRef,
   useState
 } from "react";
 import type { User } from "@supabase/supabase-js";
 import { supabase } from "./lib/supabase";
+import {
+  allowedAttachmentMimeTypes,
+  attachmentBucket,
+  buildAttachmentPath,
+  formatBytes,
+  isImageMimeType,
+  maxAttachmentsPerMessage,
+  readImageSize,
+  uploadAttachment,
+  validateAttachment
+} from "./lib/attachments";
 
 type AuthMode = "signin" | "signup";
 
-type ConversationRow = {
+type ConversationKind = "room" | "direct";
+
+type RoomVisibility = "private" | "public";
+
+type WorkspaceRow = {
+  id: number;
+  name: string;
+  role: "owner" | "member";
+  member_count: number;
+  joined_at: string;
+};
+
+type ConversationSyncRow = {
   id: number;
   name: string;
   description: string;
   created_at: string;
+  latest_content: string | null;
+  latest_at: string | null;
+  new_message_count: number;
+  changed_at: string;
+  kind: ConversationKind;
+  direct_user_id: string | null;
+  archived_at: string | null;
+  visibility: RoomVisibility;
+  workspace_id: number;
 };
 
 type MessageRow = {
@@ -24,6 +61,13 @@ type MessageRow = {
   sender_id: string;
   content: string;
   created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  parent_message_id: number | null;
+  also_sent_to_channel: boolean;
+  reply_count: number;
+  last_reply_at: string | null;
+  last_reply_sender_id: string | null;
   profiles: Array<{
     full_name: string | null;
   }> | null;
@@ -34,9 +78,14 @@ type ConversationCard = {
   name: string;
   role: string;
   avatar: string;
-  status: "online" | "away" | "offline";
   preview: string;
   latestAt: string;
+  kind: ConversationKind;
+  directUserId: string | null;
+  description: string;
+  archivedAt: string | null;
+  visibility: RoomVisibility;
+  workspaceId: number;
 };
 
 type ChatMessage = {
@@ -45,6 +94,14 @@ type ChatMessage = {
   senderName: string;
   content: string;
   timestamp: string;
+  createdAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+  parentMessageId: number | null;
+  alsoSentToChannel: boolean;
+  replyCount: number;
+  lastReplyAt: string | null;
+  lastReplySenderId: string | null;
 };
 
 type InsertedMessagePayload = {
@@ -53,6 +110,169 @@ type InsertedMessagePayload = {
   sender_id: string;
   content: string;
   created_at: string;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  parent_message_id?: number | string | null;
+  also_sent_to_channel?: boolean;
+  reply_count?: number;
+  last_reply_at?: string | null;
+  last_reply_sender_id?: string | null;
+};
+
+type MessageCursor = {
+  createdAt: string;
+  id: number;
+};
+
+type MessagePage = {
+  messages: ChatMessage[];
+  hasMore: boolean;
+};
+
+type MessageEditRow = {
+  id: number;
+  previous_content: string;
+  edited_at: string;
+};
+
+type ReactionRow = {
+  message_id: number;
+  conversation_id: number;
+  user_id: string;
+  emoji: string;
+};
+
+type ReactionGroup = {
+  emoji: string;
+  userIds: string[];
+  mine: boolean;
+};
+
+type AttachmentRow = {
+  id: number;
+  message_id: number;
+  conversation_id: number;
+  uploader_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+};
+
+type PendingUpload = {
+  localId: string;
+  file: File;
+  path: string;
+  progress: number;
+  status: "uploading" | "uploaded" | "error";
+  error: string | null;
+  previewUrl: string | null;
+  width: number | null;
+  height: number | null;
+};
+
+type UnreadCountRow = {
+  conversation_id: number;
+  unread_count: number;
+  last_read_message_id: number | null;
+  last_read_at: string | null;
+};
+
+type MarkReadRow = {
+  previous_read_at: string | null;
+  read_at: string | null;
+  read_message_id: number | null;
+  read_updated_at: string | null;
+};
+
+type ReadReceiptRow = {
+  user_id: string;
+  full_name: string;
+  last_read_message_id: number;
+  last_read_at: string;
+  read_updated_at: string | null;
+};
+
+type MentionRow = {
+  message_id: number;
+  conversation_id: number;
+  mentioned_user_id: string;
+};
+
+type MentionInboxRow = {
+  message_id: number;
+  conversation_id: number;
+  conversation_name: string;
+  parent_message_id: number | null;
+  also_sent_to_channel: boolean;
+  sender_name: string;
+  content: string;
+  created_at: string;
+};
+
+type MentionQuery = {
+  start: number;
+  query: string;
+};
+
+type RoomInviteRow = {
+  id: number;
+  token: string;
+  created_by: string;
+  creator_name: string;
+  active: boolean;
+  max_uses: number | null;
+  used_count: number;
+  expires_at: string | null;
+  created_at: string;
+};
+
+type InviteRedemptionRow = {
+  invite_id: number;
+  user_id: string;
+  full_name: string;
+  redeemed_at: string;
+};
+
+type RoomEventRow = {
+  id: number;
+  actor_name: string;
+  action:
+    | "created"
+    | "renamed"
+    | "description_changed"
+    | "visibility_changed"
+    | "archived"
+    | "unarchived"
+    | "deleted";
+  previous_value: string | null;
+  new_value: string | null;
+  created_at: string;
+};
+
+type RoomDialogMode = "create" | "edit";
+
+type PublicRoomRow = {
+  id: number;
+  name: string;
+  description: string;
+  member_count: number;
+  last_message_at: string | null;
+  created_at: string;
+  is_member: boolean;
+};
+
+type MessageSearchRow = {
+  message_id: number;
+  conversation_id: number;
+  conversation_name: string;
+  parent_message_id: number | null;
+  also_sent_to_channel: boolean;
+  sender_name: string;
+  snippet: string;
+  created_at: string;
 };
 
 type CallRequestRow = {
@@ -73,6 +293,13 @@ type ActiveCall = {
   status: CallRequestRow["status"];
 };
 
+type CallParticipantRow = {
+  call_id: number;
+  user_id: string;
+  joined_at: string;
+  left_at: string | null;
+};
+
 type SignalPayload = {
   callId: number;
   from: string;
@@ -80,6 +307,91 @@ type SignalPayload = {
   conversationId: number;
   sdp?: RTCSessionDescriptionInit;
   candidate?: RTCIceCandidateInit;
+  sharing?: boolean;
+  restart?: boolean;
+};
+
+type CallSignalEvent =
+  | "webrtc-offer"
+  | "webrtc-answer"
+  | "webrtc-ice"
+  | "participant-left"
+  | "screen-share";
+
+type CallChannel = {
+  channel: ReturnType<typeof supabase.channel>;
+  joined: Promise<void>;
+};
+
+type PeerReconnect = {
+  timerId: number;
+  retryNow: () => void;
+};
+
+// Empty device ids mean "use the system default".
+type CallMediaPreferences = {
+  audioOnly: boolean;
+  micId: string;
+  cameraId: string;
+  speakerId: string;
+};
+
+type PresenceStatus = "online" | "away" | "offline";
+
+type PresenceMeta = {
+  user_id: string;
+  full_name: string;
+  status: Exclude<PresenceStatus, "offline">;
+  online_at: string;
+};
+
+type MemberRole = "owner" | "admin" | "member" | "guest";
+
+type RoomMemberQueryRow = {
+  user_id: string;
+  role: MemberRole;
+  joined_at: string;
+  profiles: Array<{
+    full_name: string | null;
+    team_name: string | null;
+    last_seen_at: string | null;
+  }> | null;
+};
+
+type RoomMemberRow = {
+  user_id: string;
+  full_name: string | null;
+  team_name: string | null;
+  last_seen_at: string | null;
+  role: MemberRole;
+  joined_at: string;
+};
+
+type RoomMemberPresence = {
+  userId: string;
+  fullName: string;
+  status: PresenceStatus;
+  lastSeenAt: string | null;
+  role: MemberRole | null;
+  teamName: string | null;
+  joinedAt: string | null;
+};
+
+type RoomPresenceSummary = {
+  status: PresenceStatus;
+  onlineCount: number;
+};
+
+type ReactionSignalPayload = {
+  conversationId: number;
+  messageId: number;
+};
+
+type TypingPayload = {
+  conversationId: number;
+  userId: string;
+  fullName: string;
+  typing: boolean;
 };
 
 type IceServerFunctionResponse = {
@@ -87,13 +399,117 @@ type IceServerFunctionResponse = {
   ttlSeconds?: unknown;
 };
 
+const callSignalEvents: CallSignalEvent[] = [
+  "webrtc-offer",
+  "webrtc-answer",
+  "webrtc-ice",
+  "participant-left",
+  "screen-share"
+];
+
+// Mesh calls send every stream to every peer, so keep them small.
+// Keep in sync with max_call_participants() in 024_add_group_calls.sql.
+const maxCallParticipants = 6;
+
+// The server drops anyone who misses three heartbeats in a row.
+// Keep in sync with call_participant_timeout() in 031_expire_stale_call_participants.sql.
+const callHeartbeatMs = 15_000;
+
+// Brief network blips often recover on their own before an ICE restart is needed.
+const reconnectGraceMs = 2000;
+const reconnectRetryMs = 4000;
+// A peer that stays unreachable this long is dropped from the call.
+const reconnectWindowMs = 30_000;
+
+// The video transceiver exists even without a camera track, so swapping tracks never renegotiates.
+const senderFor = (peer: RTCPeerConnection, kind: "audio" | "video") =>
+  peer.getTransceivers().find((transceiver) => transceiver.receiver.track.kind === kind)
+    ?.sender ?? null;
+
+// Only Chromium-based browsers can route audio to a chosen output device.
+const speakerSelectionSupported =
+  typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype;
+
+const attachStream =
+  (stream: MediaStream | null, sinkId = "") =>
+  (element: HTMLVideoElement | null) => {
+    if (!element) return;
+    if (element.srcObject !== stream) {
+      element.srcObject = stream;
+    }
+    if (speakerSelectionSupported && element.sinkId !== sinkId) {
+      void element.setSinkId(sinkId).catch(() => undefined);
+    }
+  };
+
+const callMediaStorageKey = "callMediaPreferences";
+
+const defaultCallMediaPreferences: CallMediaPreferences = {
+  audioOnly: false,
+  micId: "",
+  cameraId: "",
+  speakerId: ""
+};
+
+const readCallMediaPreferences = (): CallMediaPreferences => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(callMediaStorageKey) ?? "{}") as
+      Partial<CallMediaPreferences>;
+    return { ...defaultCallMediaPreferences, ...stored };
+  } catch {
+    return defaultCallMediaPreferences;
+  }
+};
+
+const deviceConstraint = (deviceId: string): MediaTrackConstraints | true =>
+  deviceId ? { deviceId: { exact: deviceId } } : true;
+
+const openUserMedia = async (preferences: CallMediaPreferences): Promise<MediaStream> => {
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: deviceConstraint(preferences.micId),
+      video: preferences.audioOnly ? false : deviceConstraint(preferences.cameraId)
+    });
+  } catch (error) {
+    if (!(error instanceof DOMException)) throw error;
+    // A remembered device that has since been unplugged.
+    if (error.name === "OverconstrainedError" && (preferences.micId || preferences.cameraId)) {
+      return openUserMedia({ ...preferences, micId: "", cameraId: "" });
+    }
+    // No camera, or another app holds it: join with audio rather than not at all.
+    if (
+      !preferences.audioOnly &&
+      (error.name === "NotFoundError" || error.name === "NotReadableError")
+    ) {
+      return openUserMedia({ ...preferences, audioOnly: true });
+    }
+    throw error;
+  }
+};
+
+const openDeviceTrack = async (kind: "audio" | "video", deviceId: string) => {
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ [kind]: deviceConstraint(deviceId) });
+  } catch (error) {
+    if (!deviceId || !(error instanceof DOMException) || error.name !== "OverconstrainedError") {
+      throw error;
+    }
+    stream = await navigator.mediaDevices.getUserMedia({ [kind]: true });
+  }
+  return stream.getTracks()[0];
+};
+
 const pendingInviteStorageKey = "pendingInviteToken";
+const pendingWorkspaceInviteStorageKey = "pendingWorkspaceInviteToken";
+const activeWorkspaceStorageKey = "activeWorkspaceId";
 
-const statusCycle: Array<ConversationCard["status"]> = [
-  "online",
-  "away",
-  "offline"
-];
+// Members count as away after this long without input, or while the tab is hidden.
+const presenceIdleMs = 5 * 60 * 1000;
+const presenceHeartbeatMs = 60_000;
+// Typing pings are broadcast-only (never stored) and expire unless refreshed.
+const typingThrottleMs = 2500;
+const typingExpiryMs = 6000;
 
 const asInitials = (name: string) =>
   name
@@ -109,6 +525,233 @@ const formatClock = (isoDate: string) =>
     minute: "2-digit"
   });
 
+// Mirrors conversation_role_rank() in 015_add_member_roles.sql.
+const roleRank: Record<MemberRole, number> = { owner: 4, admin: 3, member: 2, guest: 1 };
+
+const hasRole = (role: MemberRole | null | undefined, minimum: MemberRole) =>
+  role ? roleRank[role] >= roleRank[minimum] : false;
+
+const describeTyping = (names: string[]) => {
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names.length} people are typing…`;
+};
+
+const presenceNameFor = (user: User) =>
+  (user.user_metadata?.full_name as string | undefined) ||
+  user.email?.split("@")[0] ||
+  "Member";
+
+const formatLastSeen = (isoDate: string) => {
+  const date = new Date(isoDate);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? formatClock(isoDate)
+    : date.toLocaleString([], {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit"
+      });
+};
+
+const messageColumns =
+  "id, conversation_id, sender_id, content, created_at, edited_at, deleted_at, parent_message_id, also_sent_to_channel, reply_count, last_reply_at, last_reply_sender_id, profiles:sender_id(full_name)";
+
+const searchDebounceMs = 300;
+const searchHighlightMs = 2500;
+
+// search_messages wraps matches in \u0002 ... \u0003 instead of HTML tags.
+const renderSnippet = (snippet: string): ReactNode[] =>
+  snippet.split("\u0002").flatMap((chunk, index) => {
+    if (index === 0) return [chunk];
+    const [match, rest = ""] = chunk.split("\u0003");
+    return [<mark key={index}>{match}</mark>, rest];
+  });
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// An unfinished "@name" right before the caret opens the member picker.
+const findMentionQuery = (value: string, caret: number): MentionQuery | null => {
+  const match = /(^|\s)@([^\s@]{0,32})$/.exec(value.slice(0, caret));
+  if (!match) return null;
+  return { start: match.index + match[1].length, query: match[2] };
+};
+
+// "@Ann" must stand on its own: not inside an email address, and not the start of "@Annabel".
+// Longer names are tried first so "@Ann Lee" does not also mention "Ann".
+// Captures the whitespace before the "@" (group 1) and the name (group 2).
+const mentionPattern = (names: string[]) =>
+  new RegExp(
+    `(^|\\s)@(${[...names]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|")})(?![\\p{L}\\p{N}_])`,
+    "gu"
+  );
+
+const mentionedUserIds = (content: string, members: RoomMemberRow[], selfId: string) => {
+  const idsByName = new Map<string, string[]>();
+  for (const member of members) {
+    const name = member.full_name?.trim();
+    if (!name || member.user_id === selfId) continue;
+    idsByName.set(name, [...(idsByName.get(name) ?? []), member.user_id]);
+  }
+  if (idsByName.size === 0) return [];
+
+  const userIds = new Set<string>();
+  for (const match of content.matchAll(mentionPattern([...idsByName.keys()]))) {
+    idsByName.get(match[2])?.forEach((userId) => userIds.add(userId));
+  }
+  return [...userIds];
+};
+
+// Same rule as mentionedUserIds, so highlights match who was actually notified.
+const renderMentions = (content: string, names: string[], selfName: string): ReactNode[] => {
+  const unique = [...new Set(names.filter(Boolean))];
+  if (unique.length === 0) return [content];
+  // split() yields text, then the captured whitespace and name for each mention.
+  return content.split(mentionPattern(unique)).map((chunk, index) =>
+    index % 3 === 2 ? (
+      <mark className={`mention ${chunk === selfName ? "self" : ""}`} key={index}>
+        @{chunk}
+      </mark>
+    ) : (
+      chunk
+    )
+  );
+};
+
+const attachmentColumns =
+  "id, message_id, conversation_id, uploader_id, storage_path, file_name, mime_type, size_bytes, width, height";
+const signedUrlTtlSeconds = 3600;
+
+const inviteUseOptions = [1, 5, 10, 25, 100];
+const inviteExpiryOptions = [
+  { label: "1 hour", minutes: 60 },
+  { label: "1 day", minutes: 60 * 24 },
+  { label: "7 days", minutes: 60 * 24 * 7 },
+  { label: "30 days", minutes: 60 * 24 * 30 },
+  { label: "Never", minutes: 0 }
+];
+
+const inviteUrlFor = (token: string) =>
+  `${window.location.origin}${window.location.pathname}?invite=${token}`;
+
+const workspaceInviteUrlFor = (token: string) =>
+  `${window.location.origin}${window.location.pathname}?workspace_invite=${token}`;
+
+const describeInviteState = (invite: RoomInviteRow) => {
+  if (!invite.active) return "Revoked";
+  if (invite.expires_at && new Date(invite.expires_at).getTime() < Date.now()) return "Expired";
+  if (invite.max_uses !== null && invite.used_count >= invite.max_uses) return "Used up";
+  return "Active";
+};
+
+const describeRoomEvent = (event: RoomEventRow) => {
+  switch (event.action) {
+    case "created":
+      return `${event.actor_name} created the room`;
+    case "renamed":
+      return `${event.actor_name} renamed it from “${event.previous_value}” to “${event.new_value}”`;
+    case "description_changed":
+      return event.new_value
+        ? `${event.actor_name} changed the description to “${event.new_value}”`
+        : `${event.actor_name} cleared the description`;
+    case "visibility_changed":
+      return event.new_value === "public"
+        ? `${event.actor_name} listed the room in the directory`
+        : `${event.actor_name} made the room invite-only`;
+    case "archived":
+      return `${event.actor_name} archived the room`;
+    case "unarchived":
+      return `${event.actor_name} restored the room`;
+    default:
+      return `${event.actor_name} deleted the room`;
+  }
+};
+
+const quickReactions = ["👍", "❤️", "😂", "🎉", "👀", "✅"];
+
+// Thread-only replies stay out of the room stream and its preview.
+const channelMessageFilter = "parent_message_id.is.null,also_sent_to_channel.is.true";
+
+const messagePageSize = 50;
+
+// Delta sync only runs while realtime is down; failing rounds back off from 2s to 60s.
+const syncBaseDelayMs = 2000;
+const syncMaxDelayMs = 60_000;
+// Re-read a few seconds before the cursor to catch rows committed out of order.
+const syncOverlapMs = 5000;
+const syncEpoch = "1970-01-01T00:00:00Z";
+const markReadDelayMs = 800;
+
+const laterIso = (a: string | null, b: string | null | undefined) => {
+  if (!b) return a;
+  if (!a) return b;
+  return new Date(b).getTime() > new Date(a).getTime() ? b : a;
+};
+
+const messageChangedAt = (message: ChatMessage) =>
+  [message.editedAt, message.deletedAt, message.lastReplyAt].reduce<string | null>(
+    laterIso,
+    message.createdAt
+  );
+
+const toConversationCard = (row: ConversationSyncRow): ConversationCard => ({
+  id: row.id,
+  name: row.name,
+  role: row.kind === "direct" ? "Direct message" : row.description || "Open conversation",
+  avatar: asInitials(row.name),
+  preview: row.latest_content || (row.latest_at ? "Attachment" : "No messages yet"),
+  latestAt: row.latest_at ?? row.created_at,
+  kind: row.kind,
+  directUserId: row.direct_user_id,
+  description: row.description,
+  archivedAt: row.archived_at,
+  visibility: row.visibility,
+  workspaceId: row.workspace_id
+});
+
+const byLatestActivity = (a: ConversationCard, b: ConversationCard) =>
+  new Date(b.latestAt).getTime() - new Date(a.latestAt).getTime();
+
+// Keyset cursor on (created_at, id) so pages stay on messages_conversation_created_idx.
+const olderThanCursor = (cursor: MessageCursor) =>
+  `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`;
+
+const compareMessages = (a: ChatMessage, b: ChatMessage) => {
+  const delta = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  return delta !== 0 ? delta : a.id - b.id;
+};
+
+const toChatMessage = (
+  row: InsertedMessagePayload,
+  userId: string,
+  senderName?: string
+): ChatMessage => {
+  const mine = row.sender_id === userId;
+  return {
+    id: Number(row.id),
+    sender: mine ? "me" : "other",
+    senderName: mine ? "You" : senderName || "Member",
+    content: row.content,
+    timestamp: formatClock(row.created_at),
+    createdAt: row.created_at,
+    editedAt: row.edited_at ?? null,
+    deletedAt: row.deleted_at ?? null,
+    parentMessageId:
+      row.parent_message_id === null || row.parent_message_id === undefined
+        ? null
+        : Number(row.parent_message_id),
+    alsoSentToChannel: Boolean(row.also_sent_to_channel),
+    replyCount: Number(row.reply_count ?? 0),
+    lastReplyAt: row.last_reply_at ?? null,
+    lastReplySenderId: row.last_reply_sender_id ?? null
+  };
+};
+
 const defaultIceServers: RTCIceServer[] = [
   {
     urls: ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302"]
@@ -188,6 +831,11 @@ function App() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
 
+  const [workspaces, setWorkspaces] = useState<WorkspaceRow[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<number | null>(() => {
+    const stored = Number(window.localStorage.getItem(activeWorkspaceStorageKey));
+    return Number.isFinite(stored) && stored > 0 ? stored : null;
+  });
   const [conversations, setConversations] = useState<ConversationCard[]>([]);
   const [activeConversationId, setActiveConversationId] = useState<number | null>(
     null
@@ -205,13 +853,33 @@ function App() {
   const [unreadByConversation, setUnreadByConversation] = useState<
     Record<number, number>
   >({});
+  const [unreadSince, setUnreadSince] = useState<string | null>(null);
   const [inviteFeedback, setInviteFeedback] = useState<string | null>(null);
+  const [invitePanelOpen, setInvitePanelOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [roomDialog, setRoomDialog] = useState<RoomDialogMode | null>(null);
+  const [roomNameDraft, setRoomNameDraft] = useState("");
+  const [roomDescriptionDraft, setRoomDescriptionDraft] = useState("");
+  const [roomVisibilityDraft, setRoomVisibilityDraft] = useState<RoomVisibility>("private");
+  const [roomDialogBusy, setRoomDialogBusy] = useState(false);
+  const [roomDialogError, setRoomDialogError] = useState<string | null>(null);
+  const [roomEvents, setRoomEvents] = useState<RoomEventRow[]>([]);
+  const [invites, setInvites] = useState<RoomInviteRow[]>([]);
+  const [inviteRedemptions, setInviteRedemptions] = useState<InviteRedemptionRow[]>([]);
+  const [inviteMaxUses, setInviteMaxUses] = useState(1);
+  const [inviteExpiryMinutes, setInviteExpiryMinutes] = useState(60 * 24 * 7);
   const [pendingInviteToken, setPendingInviteToken] = useState<string | null>(() => {
     const urlToken = new URLSearchParams(window.location.search).get("invite");
     const storedToken = window.localStorage.getItem(pendingInviteStorageKey);
     return urlToken || storedToken || null;
   });
   const [joiningInvite, setJoiningInvite] = useState(false);
+  const [pendingWorkspaceInviteToken, setPendingWorkspaceInviteToken] = useState<string | null>(
+    () =>
+      new URLSearchParams(window.location.search).get("workspace_invite") ||
+      window.localStorage.getItem(pendingWorkspaceInviteStorageKey) ||
+      null
+  );
   const [callStatus, setCallStatus] = useState<
     "idle" | "requesting" | "ringing" | "connecting" | "in-call" | "error"
   >("idle");
@@ -222,27 +890,122 @@ function App() {
     null
   );
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
-  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({});
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [screenSharerId, setScreenSharerId] = useState<string | null>(null);
+  const [reconnectingUserIds, setReconnectingUserIds] = useState<string[]>([]);
+  const [callParticipants, setCallParticipants] = useState<CallParticipantRow[]>([]);
   const [isMicMuted, setIsMicMuted] = useState(false);
+  const [isCameraOff, setIsCameraOff] = useState(false);
+  const [callMediaPreferences, setCallMediaPreferences] =
+    useState<CallMediaPreferences>(readCallMediaPreferences);
+  const [mediaDevices, setMediaDevices] = useState<MediaDeviceInfo[]>([]);
+  const [callSetupOpen, setCallSetupOpen] = useState(false);
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
   const [iceConfigMode, setIceConfigMode] = useState<"env" | "dynamic">("env");
   const [currentIceServers, setCurrentIceServers] = useState<RTCIceServer[]>(
     ICE_SERVERS
   );
-
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
-  const callSignalChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(
+  const [presenceStatus, setPresenceStatus] = useState<
+    Exclude<PresenceStatus, "offline">
+  >("online");
+  const [presenceByConversation, setPresenceByConversation] = useState<
+    Record<number, Record<string, PresenceMeta>>
+  >({});
+  const [mentions, setMentions] = useState<MentionRow[]>([]);
+  const [mentionInbox, setMentionInbox] = useState<MentionInboxRow[]>([]);
+  const [sidebarView, setSidebarView] = useState<"rooms" | "mentions" | "directory">("rooms");
+  const [publicRooms, setPublicRooms] = useState<PublicRoomRow[]>([]);
+  const [publicRoomsLoading, setPublicRoomsLoading] = useState(false);
+  const [joiningRoomId, setJoiningRoomId] = useState<number | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [readReceipts, setReadReceipts] = useState<ReadReceiptRow[]>([]);
+  const [receiptPopoverMessageId, setReceiptPopoverMessageId] = useState<number | null>(null);
+  const [lastSeenByUser, setLastSeenByUser] = useState<Record<string, string>>({});
+  const [roomMembers, setRoomMembers] = useState<RoomMemberRow[]>([]);
+  const [membersVersion, setMembersVersion] = useState(0);
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [messageHistory, setMessageHistory] = useState<
+    Record<number, MessageEditRow[]>
+  >({});
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<MessageSearchRow[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [highlightMessageId, setHighlightMessageId] = useState<number | null>(null);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const [reactions, setReactions] = useState<ReactionRow[]>([]);
+  const [attachments, setAttachments] = useState<AttachmentRow[]>([]);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const [signedUrls, setSignedUrls] = useState<
+    Record<string, { url: string; expiresAt: number }>
+  >({});
+  const [lightboxAttachment, setLightboxAttachment] = useState<AttachmentRow | null>(
     null
   );
+  const [dragActive, setDragActive] = useState(false);
+  const [reactionPickerFor, setReactionPickerFor] = useState<number | null>(null);
+  const [threadParentId, setThreadParentId] = useState<number | null>(null);
+  const [threadReplies, setThreadReplies] = useState<ChatMessage[]>([]);
+  // Threads can be opened from search or mentions for parents outside the loaded page.
+  const [loadedThreadParent, setLoadedThreadParent] = useState<ChatMessage | null>(null);
+  const [threadLoading, setThreadLoading] = useState(false);
+  const [threadDraft, setThreadDraft] = useState("");
+  const [threadAlsoSend, setThreadAlsoSend] = useState(false);
+  const [threadBusy, setThreadBusy] = useState(false);
+  const [typingByUser, setTypingByUser] = useState<
+    Record<string, { fullName: string; expiresAt: number }>
+  >({});
+
+  // Mesh: one peer connection per remote participant, keyed by user id.
+  const peerConnectionsRef = useRef(new Map<string, RTCPeerConnection>());
+  const localStreamRequestRef = useRef<Promise<MediaStream> | null>(null);
+  const callMediaPreferencesRef = useRef(callMediaPreferences);
+  const screenTrackRef = useRef<MediaStreamTrack | null>(null);
+  // One private channel per call; Realtime only lets that call's participants join.
+  const callChannelsRef = useRef(new Map<number, CallChannel>());
+  const callSignalHandlerRef = useRef<
+    ((event: CallSignalEvent, signal: SignalPayload) => Promise<void> | void) | null
+  >(null);
   const localVideoRef = useRef<HTMLVideoElement | null>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement | null>(null);
   const activeCallRef = useRef<ActiveCall | null>(null);
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const activeWorkspaceIdRef = useRef(activeWorkspaceId);
+  const activeConversationIdRef = useRef(activeConversationId);
   const incomingCallRef = useRef<ActiveCall | null>(null);
   const pendingOutgoingCallRef = useRef<ActiveCall | null>(null);
-  const pendingRemoteCandidatesRef = useRef<RTCIceCandidateInit[]>([]);
-  const handshakeStartedForCallRef = useRef<number | null>(null);
+  const pendingRemoteCandidatesRef = useRef(new Map<string, RTCIceCandidateInit[]>());
+  const reconnectsRef = useRef(new Map<string, PeerReconnect>());
+  const declinedCallIdsRef = useRef(new Set<number>());
   const dynamicIceCacheRef = useRef<{ servers: RTCIceServer[]; expiresAt: number } | null>(
     null
   );
+  const presenceChannelsRef = useRef<
+    Map<number, ReturnType<typeof supabase.channel>>
+  >(new Map());
+  const presenceStatusRef = useRef<Exclude<PresenceStatus, "offline">>("online");
+  const lastActivityAtRef = useRef(Date.now());
+  const markReadTimeoutRef = useRef(0);
+  const syncCursorRef = useRef<{
+    conversationsAt: string | null;
+    messagesAt: string | null;
+  }>({ conversationsAt: null, messagesAt: null });
+  const hasSubscribedRef = useRef(false);
+  const previousRealtimeStatusRef = useRef<typeof realtimeStatus>("idle");
+  const messageStreamRef = useRef<HTMLDivElement | null>(null);
+  const stickToBottomRef = useRef(true);
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
+  const loadingOlderMessagesRef = useRef(false);
+  const pendingUploadsRef = useRef<PendingUpload[]>([]);
+  const signingPathsRef = useRef(new Set<string>());
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const composerInputRef = useRef<HTMLInputElement | null>(null);
+  const threadParentIdRef = useRef<number | null>(null);
+  const pendingThreadOpenRef = useRef<number | null>(null);
+  const roomChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const lastTypingSentAtRef = useRef(0);
 
   const authed = Boolean(currentUser);
   const activeConversation = useMemo(
@@ -253,23 +1016,256 @@ function App() {
     () => hasTurnServer(currentIceServers),
     [currentIceServers]
   );
-
-  useEffect(() => {
-    if (localVideoRef.current) {
-      localVideoRef.current.srcObject = localStream;
+  const activeWorkspace = useMemo(
+    () => workspaces.find((workspace) => workspace.id === activeWorkspaceId) ?? null,
+    [activeWorkspaceId, workspaces]
+  );
+  const workspaceConversations = useMemo(
+    () =>
+      conversations.filter((conversation) => conversation.workspaceId === activeWorkspaceId),
+    [activeWorkspaceId, conversations]
+  );
+  const visibleConversations = useMemo(() => {
+    const needle = searchQuery.trim().toLowerCase();
+    if (!needle) return workspaceConversations;
+    return workspaceConversations.filter(
+      (conversation) =>
+        conversation.name.toLowerCase().includes(needle) ||
+        conversation.role.toLowerCase().includes(needle)
+    );
+  }, [searchQuery, workspaceConversations]);
+  const visibleRooms = visibleConversations.filter(
+    (conversation) => conversation.kind === "room" && !conversation.archivedAt
+  );
+  const visibleArchived = visibleConversations.filter((conversation) => conversation.archivedAt);
+  const visibleDirects = visibleConversations.filter(
+    (conversation) => conversation.kind === "direct"
+  );
+  // DMs are stored under a placeholder name; the sidebar card carries the partner's name.
+  const conversationNameFor = (conversationId: number, fallback: string) =>
+    conversations.find((conversation) => conversation.id === conversationId)?.name ?? fallback;
+  const conversationIdsKey = useMemo(
+    () =>
+      conversations
+        .map((conversation) => conversation.id)
+        .sort((a, b) => a - b)
+        .join(","),
+    [conversations]
+  );
+  // The sidebar and the member list both count other people who are online, never yourself.
+  const presenceSummaryByConversation = useMemo(() => {
+    const summaries: Record<number, RoomPresenceSummary> = {};
+    for (const [conversationId, members] of Object.entries(presenceByConversation)) {
+      let onlineCount = 0;
+      let awayCount = 0;
+      for (const meta of Object.values(members)) {
+        if (meta.user_id === currentUser?.id) continue;
+        if (meta.status === "online") {
+          onlineCount += 1;
+        } else {
+          awayCount += 1;
+        }
+      }
+      summaries[Number(conversationId)] = {
+        status: onlineCount > 0 ? "online" : awayCount > 0 ? "away" : "offline",
+        onlineCount
+      };
+    }
+    return summaries;
+  }, [currentUser, presenceByConversation]);
+  const memberNameById = useMemo(() => {
+    const names: Record<string, string> = {};
+    for (const row of roomMembers) {
+      names[row.user_id] = row.full_name?.trim() || "Member";
     }
-  }, [localStream]);
+    if (currentUser) {
+      names[currentUser.id] = presenceNameFor(currentUser);
+    }
+    return names;
+  }, [currentUser, roomMembers]);
+  const reactionsByMessage = useMemo(() => {
+    const grouped: Record<number, ReactionGroup[]> = {};
+    for (const row of reactions) {
+      const groups = (grouped[row.message_id] ??= []);
+      let group = groups.find((item) => item.emoji === row.emoji);
+      if (!group) {
+        group = { emoji: row.emoji, userIds: [], mine: false };
+        groups.push(group);
+      }
+      group.userIds.push(row.user_id);
+      if (row.user_id === currentUser?.id) {
+        group.mine = true;
+      }
+    }
+    return grouped;
+  }, [currentUser, reactions]);
+  const attachmentsByMessage = useMemo(() => {
+    const grouped: Record<number, AttachmentRow[]> = {};
+    for (const row of attachments) {
+      (grouped[row.message_id] ??= []).push(row);
+    }
+    return grouped;
+  }, [attachments]);
+  const uploadsInFlight = pendingUploads.some((upload) => upload.status === "uploading");
+  const readyUploads = pendingUploads.filter((upload) => upload.status === "uploaded");
+  const failedUploads = pendingUploads.filter((upload) => upload.status === "error");
+  const firstUnreadMessageId = useMemo(() => {
+    if (!unreadSince) return null;
+    const since = new Date(unreadSince).getTime();
+    const first = messages.find(
+      (message) => message.sender !== "me" && new Date(message.createdAt).getTime() > since
+    );
+    return first?.id ?? null;
+  }, [messages, unreadSince]);
+  const mentionNamesByMessage = useMemo(() => {
+    const grouped: Record<number, string[]> = {};
+    for (const row of mentions) {
+      const name = roomMembers.find((member) => member.user_id === row.mentioned_user_id)
+        ?.full_name?.trim();
+      if (name) (grouped[row.message_id] ??= []).push(name);
+    }
+    return grouped;
+  }, [mentions, roomMembers]);
+  const mentionSuggestions = useMemo(() => {
+    if (!mentionQuery) return [];
+    const query = mentionQuery.query.toLowerCase();
+    return roomMembers
+      .filter(
+        (member) =>
+          member.user_id !== currentUser?.id &&
+          member.full_name?.trim() &&
+          member.full_name.toLowerCase().includes(query)
+      )
+      .slice(0, 6);
+  }, [currentUser, mentionQuery, roomMembers]);
+  const selfMentionName =
+    roomMembers.find((member) => member.user_id === currentUser?.id)?.full_name?.trim() ?? "";
+  // Each member's avatar sits under the newest loaded message they have read.
+  const seenByMessage = useMemo(() => {
+    const grouped: Record<number, ReadReceiptRow[]> = {};
+    const delivered = messages.filter((message) => message.id > 0);
+    for (const receipt of readReceipts) {
+      if (receipt.user_id === currentUser?.id) continue;
+      const readAt = new Date(receipt.last_read_at).getTime();
+      let target: ChatMessage | null = null;
+      for (const message of delivered) {
+        const createdAt = new Date(message.createdAt).getTime();
+        if (
+          createdAt < readAt ||
+          (createdAt === readAt && message.id <= receipt.last_read_message_id)
+        ) {
+          target = message;
+        }
+      }
+      if (target) {
+        (grouped[target.id] ??= []).push(receipt);
+      }
+    }
+    return grouped;
+  }, [currentUser, messages, readReceipts]);
+  const latestReadByOthers = useMemo(() => {
+    let latest: { at: number; id: number } | null = null;
+    for (const receipt of readReceipts) {
+      if (receipt.user_id === currentUser?.id) continue;
+      const at = new Date(receipt.last_read_at).getTime();
+      if (
+        !latest ||
+        at > latest.at ||
+        (at === latest.at && receipt.last_read_message_id > latest.id)
+      ) {
+        latest = { at, id: receipt.last_read_message_id };
+      }
+    }
+    return latest;
+  }, [currentUser, readReceipts]);
+  const threadParent = useMemo(
+    () =>
+      messages.find((message) => message.id === threadParentId) ??
+      (loadedThreadParent?.id === threadParentId ? loadedThreadParent : null),
+    [loadedThreadParent, messages, threadParentId]
+  );
+  const typingLabel = useMemo(
+    () =>
+      describeTyping(
+        Object.values(typingByUser)
+          .map((entry) => entry.fullName)
+          .sort()
+      ),
+    [typingByUser]
+  );
+  const activeRoomPresence = useMemo((): RoomMemberPresence[] => {
+    if (activeConversationId === null) {
+      return [];
+    }
+    const present = presenceByConversation[activeConversationId] ?? {};
+    const byUser = new Map<string, RoomMemberPresence>();
+    for (const row of roomMembers) {
+      byUser.set(row.user_id, {
+        userId: row.user_id,
+        fullName: row.full_name?.trim() || "Member",
+        status: "offline",
+        lastSeenAt: lastSeenByUser[row.user_id] ?? row.last_seen_at,
+        role: row.role,
+        teamName: row.team_name?.trim() || null,
+        joinedAt: row.joined_at
+      });
+    }
+    for (const meta of Object.values(present)) {
+      const known = byUser.get(meta.user_id);
+      byUser.set(meta.user_id, {
+        userId: meta.user_id,
+        fullName: known?.fullName ?? (meta.full_name || "Member"),
+        status: meta.status,
+        lastSeenAt: known?.lastSeenAt ?? null,
+        role: known?.role ?? null,
+        teamName: known?.teamName ?? null,
+        joinedAt: known?.joinedAt ?? null
+      });
+    }
+    const rank: Record<PresenceStatus, number> = { online: 0, away: 1, offline: 2 };
+    return [...byUser.values()].sort(
+      (a, b) => rank[a.status] - rank[b.status] || a.fullName.localeCompare(b.fullName)
+    );
+  }, [activeConversationId, lastSeenByUser, presenceByConversation, roomMembers]);
+  const myRole =
+    roomMembers.find((member) => member.user_id === currentUser?.id)?.role ?? null;
+  const canInvite = hasRole(myRole, "admin");
+  const canModerate = hasRole(myRole, "admin");
+  const roomArchived = Boolean(
+    conversations.find((conversation) => conversation.id === activeConversationId)?.archivedAt
+  );
+  const canStartCall = hasRole(myRole, "member") && !roomArchived;
+  // Guests can answer calls but not start them.
+  const canJoinCall = hasRole(myRole, "guest");
+  const roomCall =
+    [activeCall, pendingOutgoingCall, incomingCall].find(
+      (call) => call?.conversationId === activeConversationId
+    ) ?? null;
+  const roomCallId = roomCall?.id ?? null;
+  const composerLocked = activeConversationId === null || roomArchived;
 
   useEffect(() => {
-    if (remoteVideoRef.current) {
-      remoteVideoRef.current.srcObject = remoteStream;
+    if (localVideoRef.current) {
+      localVideoRef.current.srcObject = screenStream ?? localStream;
     }
-  }, [remoteStream]);
+  }, [localStream, screenStream]);
 
   useEffect(() => {
     activeCallRef.current = activeCall;
   }, [activeCall]);
 
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    activeWorkspaceIdRef.current = activeWorkspaceId;
+  }, [activeWorkspaceId]);
+
+  useEffect(() => {
+    activeConversationIdRef.current = activeConversationId;
+  }, [activeConversationId]);
+
   useEffect(() => {
     incomingCallRef.current = incomingCall;
   }, [incomingCall]);
@@ -278,6 +1274,14 @@ function App() {
     pendingOutgoingCallRef.current = pendingOutgoingCall;
   }, [pendingOutgoingCall]);
 
+  useEffect(() => {
+    threadParentIdRef.current = threadParentId;
+  }, [threadParentId]);
+
+  useEffect(() => {
+    pendingUploadsRef.current = pendingUploads;
+  }, [pendingUploads]);
+
   const applyConversationPreview = useCallback(
     (conversationId: number, content: string, createdAt: string) => {
       setConversations((current) =>
@@ -287,21 +1291,39 @@ function App() {
               ? { ...conversation, preview: content, latestAt: createdAt }
               : conversation
           )
-          .sort(
-            (a, b) =>
-              new Date(b.latestAt).getTime() - new Date(a.latestAt).getTime()
-          )
+          .sort(byLatestActivity)
+      );
+    },
+    []
+  );
+
+  const applyConversationSettings = useCallback(
+    (
+      conversationId: number,
+      patch: Partial<Pick<ConversationCard, "name" | "description" | "archivedAt" | "visibility">>
+    ) => {
+      setConversations((current) =>
+        current.map((conversation) => {
+          if (conversation.id !== conversationId) return conversation;
+          const next = { ...conversation, ...patch };
+          if (next.kind === "direct") return next;
+          return {
+            ...next,
+            avatar: asInitials(next.name),
+            role: next.description || "Open conversation"
+          };
+        })
       );
     },
     []
   );
 
-  const clearInviteQueryParam = useCallback(() => {
+  const clearInviteQueryParam = useCallback((param = "invite") => {
     const url = new URL(window.location.href);
-    if (!url.searchParams.has("invite")) {
+    if (!url.searchParams.has(param)) {
       return;
     }
-    url.searchParams.delete("invite");
+    url.searchParams.delete(param);
     const search = url.searchParams.toString();
     const nextUrl = `${url.pathname}${search ? `?${search}` : ""}${url.hash ?? ""}`;
     window.history.replaceState({}, "", nextUrl);
@@ -323,25 +1345,65 @@ function App() {
   }, []);
 
   const resetCallMedia = useCallback(() => {
-    if (peerConnectionRef.current) {
-      peerConnectionRef.current.ontrack = null;
-      peerConnectionRef.current.onicecandidate = null;
-      peerConnectionRef.current.close();
-      peerConnectionRef.current = null;
-    }
-    pendingRemoteCandidatesRef.current = [];
-    handshakeStartedForCallRef.current = null;
+    reconnectsRef.current.forEach((reconnect) => window.clearTimeout(reconnect.timerId));
+    reconnectsRef.current.clear();
+    setReconnectingUserIds([]);
+    peerConnectionsRef.current.forEach((peer) => {
+      peer.ontrack = null;
+      peer.onicecandidate = null;
+      peer.close();
+    });
+    peerConnectionsRef.current.clear();
+    pendingRemoteCandidatesRef.current.clear();
+    localStreamRequestRef.current = null;
+    if (screenTrackRef.current) {
+      screenTrackRef.current.onended = null;
+      screenTrackRef.current.stop();
+      screenTrackRef.current = null;
+    }
+    setScreenStream(null);
+    setScreenSharerId(null);
     setLocalStream((current) => {
       current?.getTracks().forEach((track) => track.stop());
       return null;
     });
-    setRemoteStream((current) => {
-      current?.getTracks().forEach((track) => track.stop());
-      return null;
+    setRemoteStreams((current) => {
+      Object.values(current).forEach((stream) => {
+        stream.getTracks().forEach((track) => track.stop());
+      });
+      return {};
     });
     setIsMicMuted(false);
+    setIsCameraOff(false);
+  }, []);
+
+  const clearReconnect = useCallback((userId: string) => {
+    const reconnect = reconnectsRef.current.get(userId);
+    if (!reconnect) return;
+    window.clearTimeout(reconnect.timerId);
+    reconnectsRef.current.delete(userId);
+    setReconnectingUserIds((current) => current.filter((id) => id !== userId));
   }, []);
 
+  const closePeer = useCallback((userId: string) => {
+    clearReconnect(userId);
+    const peer = peerConnectionsRef.current.get(userId);
+    if (peer) {
+      peer.ontrack = null;
+      peer.onicecandidate = null;
+      peer.close();
+      peerConnectionsRef.current.delete(userId);
+    }
+    pendingRemoteCandidatesRef.current.delete(userId);
+    setScreenSharerId((current) => (current === userId ? null : current));
+    setRemoteStreams((current) => {
+      if (!(userId in current)) return current;
+      const next = { ...current };
+      delete next[userId];
+      return next;
+    });
+  }, [clearReconnect]);
+
   const assertMediaContext = useCallback(() => {
     if (!window.isSecureContext) {
       throw new Error(
@@ -353,38 +1415,101 @@ function App() {
     }
   }, []);
 
+  // Labels stay empty until the first getUserMedia grant, so refresh after each one.
+  const refreshMediaDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    setMediaDevices(devices.filter((device) => device.deviceId));
+  }, []);
+
+  // Several peers can ask for the camera at once; they share one getUserMedia request.
   const ensureLocalStream = useCallback(async () => {
     assertMediaContext();
-    if (localStream) {
-      return localStream;
+    if (!localStreamRequestRef.current) {
+      const request = openUserMedia(callMediaPreferencesRef.current).then((stream) => {
+        setLocalStream(stream);
+        setIsCameraOff(stream.getVideoTracks().length === 0);
+        void refreshMediaDevices();
+        return stream;
+      });
+      request.catch(() => {
+        if (localStreamRequestRef.current === request) {
+          localStreamRequestRef.current = null;
+        }
+      });
+      localStreamRequestRef.current = request;
     }
-    const stream = await navigator.mediaDevices.getUserMedia({
-      audio: true,
-      video: true
-    });
-    setLocalStream(stream);
-    return stream;
-  }, [assertMediaContext, localStream]);
+    return localStreamRequestRef.current;
+  }, [assertMediaContext, refreshMediaDevices]);
 
-  const sendCallSignal = useCallback(
-    async (event: string, payload: SignalPayload) => {
-      const channel = callSignalChannelRef.current;
-      if (!channel) {
-        return;
+  const openCallChannel = useCallback((callId: number) => {
+    const existing = callChannelsRef.current.get(callId);
+    if (existing) {
+      return existing.joined;
+    }
+
+    const channel = supabase.channel(`call:${callId}`, {
+      config: { private: true }
+    });
+    callSignalEvents.forEach((event) => {
+      channel.on("broadcast", { event }, ({ payload }) => {
+        void callSignalHandlerRef.current?.(event, payload as SignalPayload);
+      });
+    });
+
+    const joined = new Promise<void>((resolve, reject) => {
+      channel.subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          resolve();
+          return;
+        }
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          reject(new Error("Could not join the call channel."));
+        }
+      });
+    });
+    callChannelsRef.current.set(callId, { channel, joined });
+    joined.catch(() => {
+      if (callChannelsRef.current.get(callId)?.channel === channel) {
+        callChannelsRef.current.delete(callId);
+      }
+      void supabase.removeChannel(channel);
+    });
+    return joined;
+  }, []);
+
+  const closeCallChannel = useCallback((callId: number) => {
+    const entry = callChannelsRef.current.get(callId);
+    if (!entry) return;
+    callChannelsRef.current.delete(callId);
+    void supabase.removeChannel(entry.channel);
+  }, []);
+
+  const sendCallSignal = useCallback(
+    async (event: CallSignalEvent, payload: SignalPayload) => {
+      try {
+        await openCallChannel(payload.callId);
+      } catch {
+        // Not a participant (yet), so there is nobody to signal.
+        return;
       }
-      await channel.send({
+      const entry = callChannelsRef.current.get(payload.callId);
+      if (!entry) {
+        return;
+      }
+      await entry.channel.send({
         type: "broadcast",
         event,
         payload
       });
     },
-    []
+    [openCallChannel]
   );
 
-  const resolveIceServers = useCallback(async (): Promise<RTCIceServer[]> => {
+  const resolveIceServers = useCallback(async (minValidityMs = 15_000): Promise<RTCIceServer[]> => {
     const cached = dynamicIceCacheRef.current;
     const now = Date.now();
-    if (cached && cached.expiresAt > now + 15_000) {
+    if (cached && cached.expiresAt > now + minValidityMs) {
       return cached.servers;
     }
 
@@ -435,16 +1560,16 @@ function App() {
     }
   }, []);
 
-  const flushPendingRemoteCandidates = useCallback(async () => {
-    const peer = peerConnectionRef.current;
+  const flushPendingRemoteCandidates = useCallback(async (userId: string) => {
+    const peer = peerConnectionsRef.current.get(userId);
     if (!peer || !peer.remoteDescription) {
       return;
     }
-    const queued = pendingRemoteCandidatesRef.current;
-    if (queued.length === 0) {
+    const queued = pendingRemoteCandidatesRef.current.get(userId);
+    if (!queued || queued.length === 0) {
       return;
     }
-    pendingRemoteCandidatesRef.current = [];
+    pendingRemoteCandidatesRef.current.delete(userId);
     for (const candidate of queued) {
       try {
         await peer.addIceCandidate(candidate);
@@ -454,16 +1579,108 @@ function App() {
     }
   }, []);
 
+  const restartIce = useCallback(
+    async (call: ActiveCall, remoteUserId: string, myUserId: string) => {
+      const peer = peerConnectionsRef.current.get(remoteUserId);
+      if (!peer || peer.connectionState === "connected") return;
+
+      // TURN credentials have to outlast the whole retry window.
+      const iceServers = await resolveIceServers(reconnectWindowMs);
+      if (peerConnectionsRef.current.get(remoteUserId) !== peer) return;
+      peer.setConfiguration({ ...peer.getConfiguration(), iceServers });
+
+      // The answer to an earlier attempt never arrived; start over.
+      if (peer.signalingState === "have-local-offer") {
+        await peer.setLocalDescription({ type: "rollback" });
+      }
+      const offer = await peer.createOffer({ iceRestart: true });
+      await peer.setLocalDescription(offer);
+      await sendCallSignal("webrtc-offer", {
+        callId: call.id,
+        conversationId: call.conversationId,
+        from: myUserId,
+        to: remoteUserId,
+        sdp: offer,
+        restart: true
+      });
+    },
+    [resolveIceServers, sendCallSignal]
+  );
+
+  // Restart ICE until the peer connects again or the window runs out. Only the lower user id
+  // sends restarts so both sides never offer at once; the other side just waits it out.
+  const startReconnect = useCallback(
+    (
+      call: ActiveCall,
+      remoteUserId: string,
+      myUserId: string,
+      delayMs: number,
+      everConnected: boolean
+    ) => {
+      const running = reconnectsRef.current.get(remoteUserId);
+      if (running) {
+        if (delayMs === 0) running.retryNow();
+        return;
+      }
+
+      const startedAt = Date.now();
+      const attempt = () => {
+        const peer = peerConnectionsRef.current.get(remoteUserId);
+        if (!peer || peer.connectionState === "connected") {
+          clearReconnect(remoteUserId);
+          return;
+        }
+
+        if (Date.now() - startedAt >= reconnectWindowMs) {
+          closePeer(remoteUserId);
+          const othersConnected = [...peerConnectionsRef.current.values()].some(
+            (other) => other.connectionState === "connected"
+          );
+          if (!othersConnected) {
+            setCallStatus("error");
+          }
+          setCallError(
+            !everConnected
+              ? "Could not establish media route. Add TURN server for restricted networks."
+              : othersConnected
+                ? "Lost the connection to someone in the call."
+                : "Connection lost. Leave and rejoin the call."
+          );
+          return;
+        }
+
+        if (myUserId < remoteUserId) {
+          void restartIce(call, remoteUserId, myUserId).catch(() => {
+            // The next attempt tries again.
+          });
+        }
+        reconnect.timerId = window.setTimeout(attempt, reconnectRetryMs);
+      };
+
+      const reconnect: PeerReconnect = {
+        timerId: window.setTimeout(attempt, delayMs),
+        retryNow: () => {
+          window.clearTimeout(reconnect.timerId);
+          attempt();
+        }
+      };
+      reconnectsRef.current.set(remoteUserId, reconnect);
+      setReconnectingUserIds((current) => [...current, remoteUserId]);
+    },
+    [clearReconnect, closePeer, restartIce]
+  );
+
   const createPeerConnection = useCallback(
     (
       call: ActiveCall,
+      remoteUserId: string,
       stream: MediaStream,
       myUserId: string,
       iceServers: RTCIceServer[]
     ) => {
-      if (peerConnectionRef.current) {
-        peerConnectionRef.current.close();
-      }
+      // Candidates queued for this person stay: they belong to the new connection.
+      peerConnectionsRef.current.get(remoteUserId)?.close();
+      clearReconnect(remoteUserId);
 
       const peer = new RTCPeerConnection({
         iceServers
@@ -476,191 +1693,453 @@ function App() {
       peer.ontrack = (event) => {
         const streamFromPeer = event.streams[0];
         if (streamFromPeer) {
-          setRemoteStream(streamFromPeer);
+          setRemoteStreams((current) => ({ ...current, [remoteUserId]: streamFromPeer }));
         }
       };
 
       peer.onicecandidate = (event) => {
         const candidate = event.candidate;
         if (!candidate) return;
-        const targetId =
-          myUserId === call.requesterId ? call.acceptedBy : call.requesterId;
-        if (!targetId) return;
 
         void sendCallSignal("webrtc-ice", {
           callId: call.id,
           conversationId: call.conversationId,
           from: myUserId,
-          to: targetId,
+          to: remoteUserId,
           candidate: candidate.toJSON()
         });
       };
 
+      let everConnected = false;
       peer.onconnectionstatechange = () => {
-        if (peer.connectionState === "connected") {
-          setCallStatus("in-call");
-          setCallError(null);
-          return;
-        }
-        if (peer.connectionState === "failed") {
-          setCallStatus("error");
-          setCallError("Call failed. Please try again.");
-        }
-      };
-
-      peer.oniceconnectionstatechange = () => {
-        if (peer.iceConnectionState === "failed") {
-          setCallStatus("error");
-          setCallError(
-            "Could not establish media route. Add TURN server for restricted networks."
-          );
+        switch (peer.connectionState) {
+          case "connected":
+            everConnected = true;
+            clearReconnect(remoteUserId);
+            setCallStatus("in-call");
+            setCallError(null);
+            return;
+          case "disconnected":
+            startReconnect(call, remoteUserId, myUserId, reconnectGraceMs, everConnected);
+            return;
+          case "failed":
+            startReconnect(call, remoteUserId, myUserId, 0, everConnected);
+            return;
         }
       };
 
-      peerConnectionRef.current = peer;
+      peerConnectionsRef.current.set(remoteUserId, peer);
       return peer;
     },
-    [sendCallSignal]
+    [clearReconnect, sendCallSignal, startReconnect]
+  );
+
+  // Audio-only peers still negotiate a sending video line, so a camera or screen can be added
+  // later without renegotiating.
+  const prepareVideoSender = useCallback((peer: RTCPeerConnection, stream: MediaStream) => {
+    const transceiver = peer
+      .getTransceivers()
+      .find((item) => item.receiver.track.kind === "video");
+    if (!transceiver) {
+      peer.addTransceiver("video", { direction: "sendrecv", streams: [stream] });
+    } else if (transceiver.direction === "recvonly") {
+      transceiver.direction = "sendrecv";
+      transceiver.sender.setStreams(stream);
+    }
+    // Someone joining mid-share gets the screen straight away.
+    if (screenTrackRef.current) {
+      void senderFor(peer, "video")?.replaceTrack(screenTrackRef.current);
+    }
+  }, []);
+
+  const replaceOutgoingTrack = useCallback(
+    async (kind: "audio" | "video", track: MediaStreamTrack | null) => {
+      await Promise.all(
+        [...peerConnectionsRef.current.values()].map(async (peer) => {
+          try {
+            await senderFor(peer, kind)?.replaceTrack(track);
+          } catch {
+            // A peer that is closing keeps whatever it was sending.
+          }
+        })
+      );
+    },
+    []
   );
 
-  const startCallerHandshake = useCallback(
-    async (call: ActiveCall, callerId: string) => {
-      if (!call.acceptedBy) {
+  // Swaps one kind of track in the local stream and on every peer; null removes it.
+  const swapLocalTrack = useCallback(
+    async (kind: "audio" | "video", track: MediaStreamTrack | null) => {
+      const stream = await localStreamRequestRef.current?.catch(() => null);
+      if (!stream) {
+        track?.stop();
         return;
       }
-      if (
-        handshakeStartedForCallRef.current === call.id &&
-        peerConnectionRef.current
-      ) {
-        return;
+      stream.getTracks().forEach((previous) => {
+        if (previous.kind !== kind) return;
+        // A new microphone stays muted if the old one was.
+        if (track) track.enabled = previous.enabled;
+        stream.removeTrack(previous);
+        previous.stop();
+      });
+      if (track) stream.addTrack(track);
+      // A shared screen keeps the video senders until sharing stops.
+      if (kind === "audio" || !screenTrackRef.current) {
+        await replaceOutgoingTrack(kind, track);
       }
-      handshakeStartedForCallRef.current = call.id;
+      setLocalStream(new MediaStream(stream.getTracks()));
+    },
+    [replaceOutgoingTrack]
+  );
+
+  const applyCallDevice = useCallback(
+    async (kind: "audio" | "video") => {
+      const preferences = callMediaPreferencesRef.current;
       try {
-        setCallStatus("connecting");
-        const stream = await ensureLocalStream();
-        const iceServers = await resolveIceServers();
-        const peer = createPeerConnection(call, stream, callerId, iceServers);
-        const offer = await peer.createOffer();
-        await peer.setLocalDescription(offer);
-        await sendCallSignal("webrtc-offer", {
-          callId: call.id,
-          conversationId: call.conversationId,
-          from: callerId,
-          to: call.acceptedBy,
-          sdp: offer
-        });
+        const track = await openDeviceTrack(
+          kind,
+          kind === "audio" ? preferences.micId : preferences.cameraId
+        );
+        await swapLocalTrack(kind, track);
       } catch (error) {
-        handshakeStartedForCallRef.current = null;
-        setCallStatus("error");
         setCallError(
           error instanceof Error
             ? error.message
-            : "Could not start camera/mic for the call."
+            : `Could not switch ${kind === "audio" ? "microphone" : "camera"}.`
         );
       }
     },
-    [createPeerConnection, ensureLocalStream, resolveIceServers, sendCallSignal]
+    [swapLocalTrack]
   );
 
+  const stopScreenShare = useCallback(async () => {
+    const screenTrack = screenTrackRef.current;
+    if (!screenTrack) return;
+    screenTrackRef.current = null;
+    screenTrack.onended = null;
+    screenTrack.stop();
+    setScreenStream(null);
+
+    const camera = await localStreamRequestRef.current?.catch(() => null);
+    await replaceOutgoingTrack("video", camera?.getVideoTracks()[0] ?? null);
+
+    const call = activeCallRef.current;
+    if (call && currentUser) {
+      await sendCallSignal("screen-share", {
+        callId: call.id,
+        conversationId: call.conversationId,
+        from: currentUser.id,
+        sharing: false
+      });
+    }
+  }, [currentUser, replaceOutgoingTrack, sendCallSignal]);
+
+  // Whoever joins a call sends the offers; people already in it answer.
+  const connectToParticipant = useCallback(
+    async (
+      call: ActiveCall,
+      remoteUserId: string,
+      myUserId: string,
+      stream: MediaStream,
+      iceServers: RTCIceServer[]
+    ) => {
+      const peer = createPeerConnection(call, remoteUserId, stream, myUserId, iceServers);
+      prepareVideoSender(peer, stream);
+      const offer = await peer.createOffer();
+      await peer.setLocalDescription(offer);
+      await sendCallSignal("webrtc-offer", {
+        callId: call.id,
+        conversationId: call.conversationId,
+        from: myUserId,
+        to: remoteUserId,
+        sdp: offer
+      });
+    },
+    [createPeerConnection, prepareVideoSender, sendCallSignal]
+  );
+
+  const loadWorkspaces = useCallback(async () => {
+    const { data, error } = await supabase.rpc("list_my_workspaces");
+    if (error) {
+      setChatError(error.message);
+      return;
+    }
+
+    const rows = (data ?? []) as WorkspaceRow[];
+    setWorkspaces(rows);
+    setActiveWorkspaceId((current) => {
+      if (current !== null && rows.some((workspace) => workspace.id === current)) {
+        return current;
+      }
+      return rows[0]?.id ?? null;
+    });
+  }, []);
+
   const loadConversations = useCallback(async () => {
-    const { data: conversationRows, error: conversationError } = await supabase
-      .from("conversations")
-      .select("id, name, description, created_at")
-      .order("created_at", { ascending: true });
+    const { data, error } = await supabase.rpc("sync_conversations_since", {
+      p_since: syncEpoch
+    });
 
-    if (conversationError) {
-      setChatError(conversationError.message);
+    if (error) {
+      setChatError(error.message);
       return;
     }
 
-    const rows = (conversationRows ?? []) as ConversationRow[];
+    const rows = (data ?? []) as ConversationSyncRow[];
+    syncCursorRef.current.conversationsAt = rows.reduce<string | null>(
+      (latest, row) => laterIso(latest, row.changed_at),
+      null
+    );
     if (rows.length === 0) {
       setConversations([]);
       setActiveConversationId(null);
       return;
     }
 
-    const ids = rows.map((row) => row.id);
-    const { data: latestRows, error: latestError } = await supabase
-      .from("messages")
-      .select("conversation_id, content, created_at")
-      .in("conversation_id", ids)
-      .order("created_at", { ascending: false });
-
-    if (latestError) {
-      setChatError(latestError.message);
-      return;
-    }
+    const cards = rows.map(toConversationCard).sort(byLatestActivity);
 
-    const latestByConversation = new Map<
-      number,
-      { content: string; created_at: string }
-    >();
+    setConversations(cards);
+    setActiveConversationId((current) => {
+      if (current && cards.some((item) => item.id === current)) {
+        return current;
+      }
+      // Prefer the workspace the user last had open.
+      const storedWorkspaceId = Number(window.localStorage.getItem(activeWorkspaceStorageKey));
+      return (cards.find((item) => item.workspaceId === storedWorkspaceId) ?? cards[0]).id;
+    });
+  }, []);
 
-    for (const row of latestRows ?? []) {
-      const conversationId = row.conversation_id as number;
-      if (!latestByConversation.has(conversationId)) {
-        latestByConversation.set(conversationId, {
-          content: row.content as string,
-          created_at: row.created_at as string
-        });
+  // Forget a room the user no longer belongs to and hang up any call in it.
+  const dropConversation = useCallback(
+    (conversationId: number) => {
+      const call = [
+        activeCallRef.current,
+        pendingOutgoingCallRef.current,
+        incomingCallRef.current
+      ].find((item) => item?.conversationId === conversationId);
+      if (call && currentUser) {
+        if (call.id !== incomingCallRef.current?.id) {
+          void sendCallSignal("participant-left", {
+            callId: call.id,
+            conversationId,
+            from: currentUser.id
+          });
+        }
+        resetCallMedia();
+        setActiveCall(null);
+        setIncomingCall(null);
+        setPendingOutgoingCall(null);
+        setCallStatus("idle");
       }
-    }
 
-    const cards = rows
-      .map((row, index) => {
-        const latest = latestByConversation.get(row.id);
-        return {
-          id: row.id,
-          name: row.name,
-          role: row.description || "Open conversation",
-          avatar: asInitials(row.name),
-          status: statusCycle[index % statusCycle.length],
-          preview: latest?.content ?? "No messages yet",
-          latestAt: latest?.created_at ?? row.created_at
-        } satisfies ConversationCard;
-      })
-      .sort(
-        (a, b) => new Date(b.latestAt).getTime() - new Date(a.latestAt).getTime()
+      setConversations((current) => current.filter((card) => card.id !== conversationId));
+      setUnreadByConversation((current) => {
+        if (!(conversationId in current)) return current;
+        const next = { ...current };
+        delete next[conversationId];
+        return next;
+      });
+      setMentionInbox((current) =>
+        current.filter((row) => row.conversation_id !== conversationId)
       );
+      setActiveConversationId((current) => (current === conversationId ? null : current));
+      void loadConversations();
+    },
+    [currentUser, loadConversations, resetCallMedia, sendCallSignal]
+  );
 
-    setConversations(cards);
-    setActiveConversationId((current) => {
-      if (current && cards.some((item) => item.id === current)) {
-        return current;
+  const loadUnreadCounts = useCallback(async () => {
+    const { data, error } = await supabase.rpc("get_unread_counts");
+    if (error) {
+      setChatError(error.message);
+      return false;
+    }
+
+    const counts: Record<number, number> = {};
+    for (const row of (data ?? []) as UnreadCountRow[]) {
+      if (row.unread_count > 0) {
+        counts[row.conversation_id] = row.unread_count;
       }
-      return cards[0].id;
+    }
+    setUnreadByConversation(counts);
+    return true;
+  }, []);
+
+  const loadInvites = useCallback(async (conversationId: number) => {
+    const [inviteResult, redemptionResult] = await Promise.all([
+      supabase.rpc("list_room_invites", { p_conversation_id: conversationId }),
+      supabase.rpc("list_invite_redemptions", { p_conversation_id: conversationId })
+    ]);
+    const error = inviteResult.error ?? redemptionResult.error;
+    if (error) {
+      setInviteFeedback(`Could not load invites: ${error.message}`);
+      return;
+    }
+    setInvites((inviteResult.data ?? []) as RoomInviteRow[]);
+    setInviteRedemptions((redemptionResult.data ?? []) as InviteRedemptionRow[]);
+  }, []);
+
+  const loadMentionInbox = useCallback(async () => {
+    const workspaceId = activeWorkspaceIdRef.current;
+    if (workspaceId === null) {
+      setMentionInbox([]);
+      return true;
+    }
+    const { data, error } = await supabase.rpc("list_unread_mentions", {
+      p_workspace_id: workspaceId
     });
+    if (error) {
+      setChatError(error.message);
+      return false;
+    }
+    setMentionInbox((data ?? []) as MentionInboxRow[]);
+    return true;
   }, []);
 
-  const loadMessages = useCallback(
-    async (conversationId: number, userId: string) => {
-      const { data, error } = await supabase
+  const markConversationRead = useCallback(
+    async (conversationId: number) => {
+      const { data, error } = await supabase.rpc("mark_conversation_read", {
+        p_conversation_id: conversationId
+      });
+      if (error) {
+        setChatError(error.message);
+        return null;
+      }
+      setUnreadByConversation((current) => {
+        if (!current[conversationId]) return current;
+        return { ...current, [conversationId]: 0 };
+      });
+
+      const readState = ((data ?? []) as MarkReadRow[])[0] ?? null;
+      if (readState?.read_at) {
+        const readAt = new Date(readState.read_at).getTime();
+        setMentionInbox((current) =>
+          current.filter(
+            (row) =>
+              row.conversation_id !== conversationId ||
+              new Date(row.created_at).getTime() > readAt
+          )
+        );
+      }
+      return readState;
+    },
+    [currentUser]
+  );
+
+  // Reactions, attachments and mentions for these messages replace whatever was loaded before.
+  const loadMessageExtras = useCallback(async (ids: number[]) => {
+    if (ids.length === 0) return true;
+
+    const [reactionResult, attachmentResult, mentionResult] = await Promise.all([
+      supabase
+        .from("message_reactions")
+        .select("message_id, conversation_id, user_id, emoji")
+        .in("message_id", ids)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("message_attachments")
+        .select(attachmentColumns)
+        .in("message_id", ids)
+        .order("id", { ascending: true }),
+      supabase
+        .from("message_mentions")
+        .select("message_id, conversation_id, mentioned_user_id")
+        .in("message_id", ids)
+    ]);
+
+    if (reactionResult.error) {
+      setChatError(reactionResult.error.message);
+    } else {
+      setReactions((current) => [
+        ...current.filter((row) => !ids.includes(row.message_id)),
+        ...((reactionResult.data ?? []) as ReactionRow[])
+      ]);
+    }
+    if (attachmentResult.error) {
+      setChatError(attachmentResult.error.message);
+    } else {
+      setAttachments((current) => [
+        ...current.filter((row) => !ids.includes(row.message_id)),
+        ...((attachmentResult.data ?? []) as AttachmentRow[])
+      ]);
+    }
+    if (mentionResult.error) {
+      setChatError(mentionResult.error.message);
+    } else {
+      setMentions((current) => [
+        ...current.filter((row) => !ids.includes(row.message_id)),
+        ...((mentionResult.data ?? []) as MentionRow[])
+      ]);
+    }
+    return !reactionResult.error && !attachmentResult.error && !mentionResult.error;
+  }, []);
+
+  const reloadReactions = useCallback(async (messageId: number) => {
+    const { data, error } = await supabase
+      .from("message_reactions")
+      .select("message_id, conversation_id, user_id, emoji")
+      .eq("message_id", messageId)
+      .order("created_at", { ascending: true });
+    if (error) {
+      setChatError(error.message);
+      return;
+    }
+    setReactions((current) => [
+      ...current.filter((row) => row.message_id !== messageId),
+      ...((data ?? []) as ReactionRow[])
+    ]);
+  }, []);
+
+  const fetchMessagePage = useCallback(
+    async (
+      conversationId: number,
+      userId: string,
+      before?: MessageCursor
+    ): Promise<MessagePage | null> => {
+      let query = supabase
         .from("messages")
-        .select(
-          "id, conversation_id, sender_id, content, created_at, profiles:sender_id(full_name)"
-        )
+        .select(messageColumns)
         .eq("conversation_id", conversationId)
-        .order("created_at", { ascending: true });
+        .or(channelMessageFilter);
+      if (before) {
+        query = query.or(olderThanCursor(before));
+      }
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(messagePageSize + 1);
 
       if (error) {
         setChatError(error.message);
-        return;
+        return null;
       }
 
-      const mapped = ((data ?? []) as MessageRow[]).map((row) => {
-        const displayName = row.profiles?.[0]?.full_name?.trim();
-        return {
-          id: row.id,
-          sender: row.sender_id === userId ? ("me" as const) : ("other" as const),
-          senderName: row.sender_id === userId ? "You" : displayName || "Member",
-          content: row.content,
-          timestamp: formatClock(row.created_at)
-        };
-      });
-      setMessages(mapped);
+      const rows = (data ?? []) as MessageRow[];
+      const page = rows
+        .slice(0, messagePageSize)
+        .reverse()
+        .map((row) => toChatMessage(row, userId, row.profiles?.[0]?.full_name?.trim()));
+
+      await loadMessageExtras(page.map((message) => message.id));
+
+      return { messages: page, hasMore: rows.length > messagePageSize };
     },
-    []
+    [loadMessageExtras]
+  );
+
+  const loadMessages = useCallback(
+    async (conversationId: number, userId: string) => {
+      const page = await fetchMessagePage(conversationId, userId);
+      if (!page) return;
+
+      setMessages(page.messages);
+      setHasOlderMessages(page.hasMore);
+      syncCursorRef.current.messagesAt = page.messages.reduce<string | null>(
+        (latest, message) => laterIso(latest, messageChangedAt(message)),
+        null
+      );
+    },
+    [fetchMessagePage]
   );
 
   const ensureProfile = useCallback(async (user: User) => {
@@ -725,6 +2204,16 @@ function App() {
     }
   }, [currentUser, pendingInviteToken]);
 
+  useEffect(() => {
+    if (!pendingWorkspaceInviteToken) {
+      return;
+    }
+    window.localStorage.setItem(pendingWorkspaceInviteStorageKey, pendingWorkspaceInviteToken);
+    if (!currentUser) {
+      setAuthNotice("Sign in to join the workspace.");
+    }
+  }, [currentUser, pendingWorkspaceInviteToken]);
+
   useEffect(() => {
     if (!currentUser) {
       dynamicIceCacheRef.current = null;
@@ -736,10 +2225,19 @@ function App() {
       setPendingOutgoingCall(null);
       setCallStatus("idle");
       setCallError(null);
+      setWorkspaces([]);
       setConversations([]);
       setMessages([]);
       setActiveConversationId(null);
       setUnreadByConversation({});
+      setUnreadSince(null);
+      setMentionInbox([]);
+      setSidebarView("rooms");
+      setPresenceByConversation({});
+      setLastSeenByUser({});
+      setRoomMembers([]);
+      syncCursorRef.current = { conversationsAt: null, messagesAt: null };
+      hasSubscribedRef.current = false;
       return;
     }
 
@@ -749,7 +2247,12 @@ function App() {
       setChatLoading(true);
       setChatError(null);
       await ensureProfile(currentUser);
-      await loadConversations();
+      await Promise.all([
+        loadWorkspaces(),
+        loadConversations(),
+        loadUnreadCounts(),
+        loadMentionInbox()
+      ]);
       if (!alive) return;
       setChatLoading(false);
     };
@@ -758,7 +2261,15 @@ function App() {
     return () => {
       alive = false;
     };
-  }, [currentUser, ensureProfile, loadConversations, resetCallMedia]);
+  }, [
+    currentUser,
+    ensureProfile,
+    loadConversations,
+    loadMentionInbox,
+    loadUnreadCounts,
+    loadWorkspaces,
+    resetCallMedia
+  ]);
 
   useEffect(() => {
     if (!currentUser) {
@@ -768,7 +2279,54 @@ function App() {
   }, [currentUser, resolveIceServers]);
 
   useEffect(() => {
-    if (!currentUser || !pendingInviteToken || joiningInvite) {
+    if (!currentUser || !pendingWorkspaceInviteToken || joiningInvite) {
+      return;
+    }
+
+    let disposed = false;
+    const joinWorkspace = async () => {
+      setJoiningInvite(true);
+      setInviteFeedback("Joining workspace...");
+      const { data, error } = await supabase.rpc("accept_workspace_invite", {
+        p_token: pendingWorkspaceInviteToken
+      });
+
+      if (disposed) return;
+
+      window.localStorage.removeItem(pendingWorkspaceInviteStorageKey);
+      clearInviteQueryParam("workspace_invite");
+      setPendingWorkspaceInviteToken(null);
+      setJoiningInvite(false);
+      if (error) {
+        setInviteFeedback(`Invite failed: ${error.message}`);
+        return;
+      }
+
+      await loadWorkspaces();
+      const workspaceId = Number(data);
+      if (Number.isFinite(workspaceId)) {
+        setActiveWorkspaceId(workspaceId);
+        setActiveConversationId(null);
+        setSidebarView("directory");
+      }
+      setInviteFeedback("You joined the workspace. Browse its public rooms to get started.");
+    };
+
+    void joinWorkspace();
+    return () => {
+      disposed = true;
+    };
+  }, [
+    clearInviteQueryParam,
+    currentUser,
+    joiningInvite,
+    loadWorkspaces,
+    pendingWorkspaceInviteToken
+  ]);
+
+  useEffect(() => {
+    // A room invite only works once its workspace invite has gone through.
+    if (!currentUser || !pendingInviteToken || pendingWorkspaceInviteToken || joiningInvite) {
       return;
     }
 
@@ -791,7 +2349,7 @@ function App() {
       }
 
       const joinedConversationId = Number(data);
-      await loadConversations();
+      await Promise.all([loadWorkspaces(), loadConversations()]);
       if (Number.isFinite(joinedConversationId)) {
         setActiveConversationId(joinedConversationId);
       }
@@ -811,7 +2369,9 @@ function App() {
     currentUser,
     joiningInvite,
     loadConversations,
-    pendingInviteToken
+    loadWorkspaces,
+    pendingInviteToken,
+    pendingWorkspaceInviteToken
   ]);
 
   useEffect(() => {
@@ -820,19 +2380,57 @@ function App() {
       return;
     }
 
-    setUnreadByConversation((current) => {
-      if (!current[activeConversationId]) return current;
-      return { ...current, [activeConversationId]: 0 };
-    });
+    setUnreadSince(null);
+    setEditingMessageId(null);
+    setEditDraft("");
+    setMessageHistory({});
+    setThreadParentId(pendingThreadOpenRef.current);
+    pendingThreadOpenRef.current = null;
+    setReactionPickerFor(null);
+    setMessages([]);
+    setReactions([]);
+    setAttachments([]);
+    setMentions([]);
+    setMentionQuery(null);
+    setLightboxAttachment(null);
+    setHasOlderMessages(false);
+    stickToBottomRef.current = true;
+    syncCursorRef.current.messagesAt = null;
 
+    let disposed = false;
     const run = async () => {
       setMessagesLoading(true);
       await loadMessages(activeConversationId, currentUser.id);
+      if (disposed) return;
       setMessagesLoading(false);
+      // The divider marks where the previous visit stopped reading.
+      const readState = await markConversationRead(activeConversationId);
+      if (disposed) return;
+      if (readState?.previous_read_at && readState.previous_read_at !== readState.read_at) {
+        setUnreadSince(readState.previous_read_at);
+      }
     };
 
     void run();
-  }, [activeConversationId, currentUser, loadMessages]);
+    return () => {
+      disposed = true;
+    };
+  }, [activeConversationId, currentUser, loadMessages, markConversationRead]);
+
+  useEffect(() => {
+    if (!currentUser || activeConversationId === null) return;
+
+    const handleVisibility = () => {
+      if (!document.hidden) {
+        void markConversationRead(activeConversationId);
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.clearTimeout(markReadTimeoutRef.current);
+    };
+  }, [activeConversationId, currentUser, markConversationRead]);
 
   useEffect(() => {
     if (!currentUser) return;
@@ -861,6 +2459,34 @@ function App() {
             return;
           }
           const mine = inserted.sender_id === currentUser.id;
+          const chatMessage = toChatMessage(inserted, currentUser.id);
+          const cursor = syncCursorRef.current;
+          cursor.conversationsAt = laterIso(cursor.conversationsAt, inserted.created_at);
+          if (insertedConversationId === activeConversationIdRef.current) {
+            cursor.messagesAt = laterIso(cursor.messagesAt, inserted.created_at);
+          }
+
+          if (!mine) {
+            setTypingByUser((current) => {
+              if (!current[inserted.sender_id]) return current;
+              const next = { ...current };
+              delete next[inserted.sender_id];
+              return next;
+            });
+          }
+          if (
+            chatMessage.parentMessageId !== null &&
+            chatMessage.parentMessageId === threadParentIdRef.current
+          ) {
+            setThreadReplies((current) =>
+              current.some((message) => message.id === insertedId)
+                ? current
+                : [...current, chatMessage]
+            );
+          }
+          if (chatMessage.parentMessageId !== null && !chatMessage.alsoSentToChannel) {
+            return;
+          }
 
           applyConversationPreview(
             insertedConversationId,
@@ -869,33 +2495,217 @@ function App() {
           );
 
           if (!mine) {
-            setUnreadByConversation((current) => {
-              if (insertedConversationId === activeConversationId) {
-                return current;
-              }
-              const value = current[insertedConversationId] ?? 0;
-              return { ...current, [insertedConversationId]: value + 1 };
-            });
+            if (insertedConversationId === activeConversationIdRef.current && !document.hidden) {
+              window.clearTimeout(markReadTimeoutRef.current);
+              markReadTimeoutRef.current = window.setTimeout(() => {
+                void markConversationRead(insertedConversationId);
+              }, markReadDelayMs);
+            } else {
+              setUnreadByConversation((current) => {
+                const value = current[insertedConversationId] ?? 0;
+                return { ...current, [insertedConversationId]: value + 1 };
+              });
+            }
           }
-          if (insertedConversationId === activeConversationId) {
+          if (insertedConversationId === activeConversationIdRef.current) {
             setMessages((current) => {
               if (current.some((message) => message.id === insertedId)) {
                 return current;
               }
-              return [
-                ...current,
-                {
-                  id: insertedId,
-                  sender: mine ? "me" : "other",
-                  senderName: mine ? "You" : "Member",
-                  content: inserted.content,
-                  timestamp: formatClock(inserted.created_at)
+              return [...current, chatMessage];
+            });
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "messages" },
+        (payload) => {
+          const updated = payload.new as InsertedMessagePayload;
+          const updatedId = Number(updated.id);
+          if (!Number.isFinite(updatedId)) return;
+          if (Number(updated.conversation_id) === activeConversationIdRef.current) {
+            const cursor = syncCursorRef.current;
+            cursor.messagesAt = [
+              updated.edited_at,
+              updated.deleted_at,
+              updated.last_reply_at
+            ].reduce<string | null>(laterIso, cursor.messagesAt);
+          }
+
+          const patch = (message: ChatMessage): ChatMessage =>
+            message.id === updatedId
+              ? {
+                  ...message,
+                  content: updated.content,
+                  editedAt: updated.edited_at ?? null,
+                  deletedAt: updated.deleted_at ?? null,
+                  replyCount: Number(updated.reply_count ?? message.replyCount),
+                  lastReplyAt: updated.last_reply_at ?? message.lastReplyAt,
+                  lastReplySenderId:
+                    updated.last_reply_sender_id ?? message.lastReplySenderId
                 }
-              ];
+              : message;
+          setMessages((current) => current.map(patch));
+          setThreadReplies((current) => current.map(patch));
+          if (updated.deleted_at) {
+            setAttachments((current) =>
+              current.filter((row) => row.message_id !== updatedId)
+            );
+            setMessageHistory((current) => {
+              if (!current[updatedId]) return current;
+              const next = { ...current };
+              delete next[updatedId];
+              return next;
             });
           }
         }
       )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "message_attachments" },
+        (payload) => {
+          const row = payload.new as AttachmentRow;
+          if (Number(row.conversation_id) !== activeConversationIdRef.current) return;
+          setAttachments((current) =>
+            current.some((item) => item.id === row.id) ? current : [...current, row]
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "message_mentions" },
+        (payload) => {
+          const row = payload.new as MentionRow;
+          const conversationId = Number(row.conversation_id);
+          if (conversationId === activeConversationIdRef.current) {
+            setMentions((current) =>
+              current.some(
+                (item) =>
+                  item.message_id === row.message_id &&
+                  item.mentioned_user_id === row.mentioned_user_id
+              )
+                ? current
+                : [...current, row]
+            );
+          }
+          if (
+            row.mentioned_user_id === currentUser.id &&
+            (conversationId !== activeConversationIdRef.current || document.hidden)
+          ) {
+            void loadMentionInbox();
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "conversation_member_events" },
+        (payload) => {
+          const row = payload.new as {
+            conversation_id?: number;
+            user_id?: string;
+            kind?: "joined" | "left" | "role" | "read";
+            role?: MemberRole | null;
+            last_read_message_id?: number | null;
+            last_read_at?: string | null;
+            read_updated_at?: string | null;
+          };
+          const conversationId = Number(row.conversation_id);
+          const userId = row.user_id;
+          if (!Number.isFinite(conversationId) || !userId) return;
+
+          if (row.kind === "joined" || row.kind === "left") {
+            if (userId === currentUser.id) {
+              if (row.kind === "left") {
+                dropConversation(conversationId);
+              } else {
+                // Someone opened a DM with us, or we joined from another tab.
+                void loadWorkspaces();
+                void loadConversations();
+              }
+            } else if (conversationId === activeConversationIdRef.current) {
+              setMembersVersion((current) => current + 1);
+            }
+            return;
+          }
+          if (conversationId !== activeConversationIdRef.current) return;
+
+          // Most events are read positions, so patch the member in place instead of
+          // refetching the member list on every message anyone reads.
+          const { role, last_read_message_id: messageId, last_read_at: readAt } = row;
+          if (row.kind === "role" && role) {
+            setRoomMembers((current) =>
+              current.some((member) => member.user_id === userId && member.role !== role)
+                ? current.map((member) =>
+                    member.user_id === userId ? { ...member, role } : member
+                  )
+                : current
+            );
+          }
+
+          // These events pass RLS, so only people in the room ever see read receipts.
+          if (userId === currentUser.id || !messageId || !readAt) return;
+          setReadReceipts((current) =>
+            current.some((receipt) => receipt.user_id === userId)
+              ? current.map((receipt) =>
+                  receipt.user_id === userId &&
+                  new Date(readAt).getTime() >= new Date(receipt.last_read_at).getTime()
+                    ? {
+                        ...receipt,
+                        last_read_message_id: messageId,
+                        last_read_at: readAt,
+                        read_updated_at: row.read_updated_at ?? null
+                      }
+                    : receipt
+                )
+              : [
+                  ...current,
+                  {
+                    user_id: userId,
+                    full_name: "Member",
+                    last_read_message_id: messageId,
+                    last_read_at: readAt,
+                    read_updated_at: row.read_updated_at ?? null
+                  }
+                ]
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "conversations" },
+        (payload) => {
+          const row = payload.new as {
+            id: number;
+            name: string;
+            description: string;
+            kind: ConversationKind;
+            archived_at: string | null;
+            visibility: RoomVisibility;
+          };
+          applyConversationSettings(
+            Number(row.id),
+            row.kind === "direct"
+              ? { archivedAt: row.archived_at }
+              : {
+                  name: row.name,
+                  description: row.description,
+                  archivedAt: row.archived_at,
+                  visibility: row.visibility
+                }
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "conversations" },
+        (payload) => {
+          const conversationId = Number((payload.old as { id?: number }).id);
+          if (Number.isFinite(conversationId)) {
+            dropConversation(conversationId);
+          }
+        }
+      )
       .on(
         "postgres_changes",
         { event: "INSERT", schema: "public", table: "conversations" },
@@ -923,574 +2733,2457 @@ function App() {
       void supabase.removeChannel(channel);
     };
   }, [
-    activeConversationId,
     applyConversationPreview,
+    applyConversationSettings,
     currentUser,
-    loadConversations
+    dropConversation,
+    loadConversations,
+    loadMentionInbox,
+    loadWorkspaces,
+    markConversationRead
   ]);
 
+  const syncConversationsDelta = useCallback(async () => {
+    const since = syncCursorRef.current.conversationsAt;
+    if (!since) {
+      await loadConversations();
+      return true;
+    }
+
+    const { data, error } = await supabase.rpc("sync_conversations_since", {
+      p_since: new Date(new Date(since).getTime() - syncOverlapMs).toISOString()
+    });
+    if (error) {
+      return false;
+    }
+
+    const rows = (data ?? []) as ConversationSyncRow[];
+    if (rows.length === 0) {
+      return true;
+    }
+
+    syncCursorRef.current.conversationsAt = rows.reduce<string | null>(
+      (latest, row) => laterIso(latest, row.changed_at),
+      since
+    );
+    setConversations((current) => {
+      const byId = new Map(current.map((card) => [card.id, card]));
+      rows.forEach((row) => byId.set(row.id, toConversationCard(row)));
+      return [...byId.values()].sort(byLatestActivity);
+    });
+    setActiveConversationId((current) => current ?? rows[0].id);
+    const [countsLoaded, mentionsLoaded] = await Promise.all([
+      loadUnreadCounts(),
+      loadMentionInbox()
+    ]);
+    return countsLoaded && mentionsLoaded;
+  }, [loadConversations, loadMentionInbox, loadUnreadCounts]);
+
+  const syncMessagesDelta = useCallback(async () => {
+    const since = syncCursorRef.current.messagesAt;
+    if (!currentUser || activeConversationId === null || !since) {
+      return true;
+    }
+
+    const from = new Date(new Date(since).getTime() - syncOverlapMs).toISOString();
+    const { data, error } = await supabase
+      .from("messages")
+      .select(messageColumns)
+      .eq("conversation_id", activeConversationId)
+      .or(channelMessageFilter)
+      .or(
+        `created_at.gt."${from}",edited_at.gt."${from}",deleted_at.gt."${from}",last_reply_at.gt."${from}"`
+      )
+      .order("created_at", { ascending: true });
+    if (error) {
+      return false;
+    }
+
+    const changed = ((data ?? []) as MessageRow[]).map((row) =>
+      toChatMessage(row, currentUser.id, row.profiles?.[0]?.full_name?.trim())
+    );
+    // Reactions and attachments can change on any loaded message, including removals the
+    // messages query cannot see, so they are re-read for everything on screen.
+    const extrasLoaded = await loadMessageExtras([
+      ...new Set(
+        [...messagesRef.current, ...changed]
+          .map((message) => message.id)
+          .filter((id) => id > 0)
+      )
+    ]);
+    if (changed.length === 0) {
+      return extrasLoaded;
+    }
+
+    syncCursorRef.current.messagesAt = changed.reduce<string | null>(
+      (latest, message) => laterIso(latest, messageChangedAt(message)),
+      since
+    );
+    // Upsert by id so the overlap window never produces duplicates.
+    setMessages((current) => {
+      const byId = new Map(current.map((message) => [message.id, message]));
+      changed.forEach((message) => byId.set(message.id, message));
+      return [...byId.values()].sort(compareMessages);
+    });
+    return extrasLoaded;
+  }, [activeConversationId, currentUser, loadMessageExtras]);
+
+  const runDeltaSync = useCallback(async () => {
+    const [conversationsOk, messagesOk] = await Promise.all([
+      syncConversationsDelta(),
+      syncMessagesDelta()
+    ]);
+    return conversationsOk && messagesOk;
+  }, [syncConversationsDelta, syncMessagesDelta]);
+
   useEffect(() => {
-    if (!currentUser) return;
+    if (!currentUser || realtimeStatus === "idle" || realtimeStatus === "subscribed") {
+      return;
+    }
 
-    // Fallback sync to avoid manual refresh if websocket gets blocked/disconnected.
-    const intervalId = window.setInterval(() => {
-      void loadConversations();
-      if (activeConversationId !== null) {
-        void loadMessages(activeConversationId, currentUser.id);
-      }
-    }, 4000);
+    // Fallback sync while the websocket is blocked/disconnected, backing off between rounds.
+    let disposed = false;
+    let timeoutId = 0;
+    let delay = syncBaseDelayMs;
+    const tick = async () => {
+      const synced = await runDeltaSync();
+      if (disposed) return;
+      delay = synced ? syncBaseDelayMs : Math.min(delay * 2, syncMaxDelayMs);
+      timeoutId = window.setTimeout(tick, delay);
+    };
+    timeoutId = window.setTimeout(tick, delay);
 
     return () => {
-      window.clearInterval(intervalId);
+      disposed = true;
+      window.clearTimeout(timeoutId);
     };
-  }, [activeConversationId, currentUser, loadConversations, loadMessages]);
+  }, [currentUser, realtimeStatus, runDeltaSync]);
+
+  useEffect(() => {
+    const previous = previousRealtimeStatusRef.current;
+    previousRealtimeStatusRef.current = realtimeStatus;
+    if (realtimeStatus !== "subscribed" || previous === "subscribed") return;
+    if (!hasSubscribedRef.current) {
+      hasSubscribedRef.current = true;
+      return;
+    }
+    // Back on the socket: fetch exactly what happened since the last event we saw.
+    void runDeltaSync();
+  }, [realtimeStatus, runDeltaSync]);
 
   useEffect(() => {
+    presenceStatusRef.current = presenceStatus;
     if (!currentUser) return;
+    presenceChannelsRef.current.forEach((channel) => {
+      void channel.track({
+        user_id: currentUser.id,
+        full_name: presenceNameFor(currentUser),
+        status: presenceStatus,
+        online_at: new Date().toISOString()
+      } satisfies PresenceMeta);
+    });
+  }, [currentUser, presenceStatus]);
 
-    const handleCallChange = (raw: Partial<CallRequestRow>) => {
-      const call = normalizeCall(raw);
-      if (!call) return;
+  useEffect(() => {
+    if (!currentUser) return;
 
-      if (call.status === "pending") {
-        if (call.requesterId === currentUser.id) {
-          setPendingOutgoingCall(call);
-          setCallStatus("requesting");
-        } else {
-          setIncomingCall(call);
-          setCallStatus((current) => (current === "idle" ? "ringing" : current));
-        }
-        return;
+    const markActive = () => {
+      lastActivityAtRef.current = Date.now();
+      if (!document.hidden) {
+        setPresenceStatus("online");
       }
-
-      if (call.status === "accepted") {
-        setActiveConversationId(call.conversationId);
-        if (call.requesterId === currentUser.id && call.acceptedBy) {
-          setPendingOutgoingCall(null);
-          setCallError(null);
-          setActiveCall(call);
-          if (!peerConnectionRef.current) {
-            void startCallerHandshake(call, currentUser.id);
-          }
-          return;
-        }
-        if (call.acceptedBy === currentUser.id) {
-          setIncomingCall(null);
-          setCallError(null);
-          setActiveCall(call);
-          setCallStatus("connecting");
-        }
+    };
+    const evaluateIdle = () => {
+      const idle =
+        document.hidden || Date.now() - lastActivityAtRef.current > presenceIdleMs;
+      setPresenceStatus(idle ? "away" : "online");
+    };
+    const handleVisibility = () => {
+      if (document.hidden) {
+        evaluateIdle();
         return;
       }
-
-      if (
-        call.status === "ended" ||
-        call.status === "cancelled" ||
-        call.status === "rejected"
-      ) {
-        const isRelated =
-          activeCallRef.current?.id === call.id ||
-          incomingCallRef.current?.id === call.id ||
-          pendingOutgoingCallRef.current?.id === call.id;
-        if (!isRelated) return;
-
-        resetCallMedia();
-        setActiveCall(null);
-        setIncomingCall(null);
-        setPendingOutgoingCall(null);
-        if (call.status === "rejected" && call.requesterId === currentUser.id) {
-          setCallError("Call was declined.");
-        }
-        setCallStatus("idle");
-      }
+      markActive();
     };
 
-    const channel = supabase
-      .channel(`call-requests-${currentUser.id}`)
-      .on(
-        "postgres_changes",
-        { event: "INSERT", schema: "public", table: "call_requests" },
-        (payload) => handleCallChange(payload.new as Partial<CallRequestRow>)
-      )
-      .on(
-        "postgres_changes",
-        { event: "UPDATE", schema: "public", table: "call_requests" },
-        (payload) => handleCallChange(payload.new as Partial<CallRequestRow>)
-      )
-      .subscribe();
+    const activityEvents = ["pointerdown", "pointermove", "keydown", "focus"] as const;
+    activityEvents.forEach((name) => window.addEventListener(name, markActive));
+    document.addEventListener("visibilitychange", handleVisibility);
+    const intervalId = window.setInterval(evaluateIdle, 15_000);
 
     return () => {
-      void supabase.removeChannel(channel);
+      activityEvents.forEach((name) => window.removeEventListener(name, markActive));
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.clearInterval(intervalId);
     };
-  }, [currentUser, normalizeCall, resetCallMedia, startCallerHandshake]);
+  }, [currentUser]);
 
   useEffect(() => {
     if (!currentUser) return;
 
-    const channel = supabase
-      .channel("call-signal-global")
-      .on("broadcast", { event: "call-accepted" }, async ({ payload }) => {
-        const signal = payload as SignalPayload;
-        if (signal.to && signal.to !== currentUser.id) return;
+    const touch = () => {
+      void supabase.rpc("touch_last_seen");
+    };
+    touch();
+    const intervalId = window.setInterval(() => {
+      if (presenceStatusRef.current === "online") {
+        touch();
+      }
+    }, presenceHeartbeatMs);
+    window.addEventListener("pagehide", touch);
 
-        const pending = pendingOutgoingCallRef.current;
-        if (!pending || pending.id !== signal.callId) return;
+    return () => {
+      window.clearInterval(intervalId);
+      window.removeEventListener("pagehide", touch);
+      touch();
+    };
+  }, [currentUser]);
 
-        const accepted: ActiveCall = {
-          ...pending,
-          acceptedBy: signal.from,
-          status: "accepted"
-        };
-        setPendingOutgoingCall(null);
-        setActiveCall(accepted);
-        setCallStatus("connecting");
-        setActiveConversationId(accepted.conversationId);
-        await startCallerHandshake(accepted, currentUser.id);
-      })
-      .on("broadcast", { event: "webrtc-offer" }, async ({ payload }) => {
-        const signal = payload as SignalPayload;
-        if (signal.to && signal.to !== currentUser.id) return;
-        if (!signal.sdp) return;
-
-        let call = activeCallRef.current;
-        if (!call || call.id !== signal.callId) {
-          const incoming = incomingCallRef.current;
-          if (!incoming || incoming.id !== signal.callId) return;
-          call = {
-            ...incoming,
-            status: "accepted",
-            acceptedBy: currentUser.id
-          };
-          setIncomingCall(null);
-          setActiveCall(call);
-        }
+  // Only rooms that were added or removed open or close a channel; the rest stay subscribed.
+  useEffect(() => {
+    if (!currentUser) return;
 
-        try {
-          setCallStatus("connecting");
-          const stream = await ensureLocalStream();
-          const iceServers = await resolveIceServers();
-          const peer = createPeerConnection(
-            call,
-            stream,
-            currentUser.id,
-            iceServers
-          );
-          await peer.setRemoteDescription(signal.sdp);
-          await flushPendingRemoteCandidates();
-          const answer = await peer.createAnswer();
-          await peer.setLocalDescription(answer);
-          await sendCallSignal("webrtc-answer", {
-            callId: call.id,
-            conversationId: call.conversationId,
-            from: currentUser.id,
-            to: signal.from,
-            sdp: answer
-          });
-        } catch (error) {
-          setCallStatus("error");
-          setCallError(
-            error instanceof Error ? error.message : "Could not answer the call."
-          );
-        }
-      })
-      .on("broadcast", { event: "webrtc-answer" }, async ({ payload }) => {
-        const signal = payload as SignalPayload;
-        if (signal.to && signal.to !== currentUser.id) return;
-        if (!signal.sdp || !peerConnectionRef.current) return;
+    const channels = presenceChannelsRef.current;
+    const conversationIds = new Set(
+      conversationIdsKey ? conversationIdsKey.split(",").map(Number) : []
+    );
 
-        await peerConnectionRef.current.setRemoteDescription(signal.sdp);
-        await flushPendingRemoteCandidates();
-      })
-      .on("broadcast", { event: "webrtc-ice" }, async ({ payload }) => {
-        const signal = payload as SignalPayload;
-        if (signal.to && signal.to !== currentUser.id) return;
-        if (!signal.candidate || !peerConnectionRef.current) return;
+    for (const [conversationId, channel] of [...channels]) {
+      if (conversationIds.has(conversationId)) continue;
+      void supabase.removeChannel(channel);
+      channels.delete(conversationId);
+      setPresenceByConversation((current) => {
+        if (!current[conversationId]) return current;
+        const next = { ...current };
+        delete next[conversationId];
+        return next;
+      });
+    }
 
-        try {
-          if (peerConnectionRef.current.remoteDescription) {
-            await peerConnectionRef.current.addIceCandidate(signal.candidate);
-          } else {
-            pendingRemoteCandidatesRef.current.push(signal.candidate);
-          }
-        } catch {
-          // Ignore ICE failures for MVP flow.
-        }
-      })
-      .on("broadcast", { event: "call-ended" }, ({ payload }) => {
-        const signal = payload as SignalPayload;
-        const isRelated =
-          activeCallRef.current?.id === signal.callId ||
-          incomingCallRef.current?.id === signal.callId ||
-          pendingOutgoingCallRef.current?.id === signal.callId;
-        if (!isRelated) return;
+    conversationIds.forEach((conversationId) => {
+      if (channels.has(conversationId)) return;
+      const channel = supabase.channel(`presence:${conversationId}`, {
+        config: { private: true, presence: { key: currentUser.id } }
+      });
 
-        resetCallMedia();
-        setActiveCall(null);
-        setIncomingCall(null);
-        setPendingOutgoingCall(null);
-        setCallStatus("idle");
-      })
-      .subscribe();
+      channel
+        .on("presence", { event: "sync" }, () => {
+          const state = channel.presenceState<PresenceMeta>();
+          const members: Record<string, PresenceMeta> = {};
+          for (const [userId, metas] of Object.entries(state)) {
+            if (metas.length === 0) continue;
+            // A member with several tabs open is online if any of them is.
+            const anyOnline = metas.some((meta) => meta.status === "online");
+            const latest = metas[metas.length - 1];
+            members[userId] = {
+              user_id: userId,
+              full_name: latest.full_name,
+              status: anyOnline ? "online" : "away",
+              online_at: latest.online_at
+            };
+          }
+          setPresenceByConversation((current) => ({
+            ...current,
+            [conversationId]: members
+          }));
+        })
+        .on("presence", { event: "leave" }, ({ key }) => {
+          setLastSeenByUser((current) => ({
+            ...current,
+            [key]: new Date().toISOString()
+          }));
+        })
+        .subscribe((status) => {
+          if (status !== "SUBSCRIBED") return;
+          void channel.track({
+            user_id: currentUser.id,
+            full_name: presenceNameFor(currentUser),
+            status: presenceStatusRef.current,
+            online_at: new Date().toISOString()
+          } satisfies PresenceMeta);
+        });
 
-    callSignalChannelRef.current = channel;
+      channels.set(conversationId, channel);
+    });
+  }, [conversationIdsKey, currentUser]);
 
+  // Signing out (or in as someone else) drops every presence channel at once.
+  useEffect(() => {
+    if (!currentUser) return;
+    const channels = presenceChannelsRef.current;
     return () => {
-      callSignalChannelRef.current = null;
-      void supabase.removeChannel(channel);
+      channels.forEach((channel) => {
+        void supabase.removeChannel(channel);
+      });
+      channels.clear();
+      setPresenceByConversation({});
     };
-  }, [
-    createPeerConnection,
-    currentUser,
-    ensureLocalStream,
-    flushPendingRemoteCandidates,
+  }, [currentUser]);
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!currentUser || activeWorkspaceId === null || query.length < 2) {
+      setSearchResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let disposed = false;
+    setSearching(true);
+    const timeoutId = window.setTimeout(async () => {
+      const { data, error } = await supabase.rpc("search_messages", {
+        p_workspace_id: activeWorkspaceId,
+        p_query: query,
+        p_limit: 30
+      });
+      if (disposed) return;
+      setSearching(false);
+      if (error) {
+        setChatError(error.message);
+        return;
+      }
+      setSearchResults((data ?? []) as MessageSearchRow[]);
+    }, searchDebounceMs);
+
+    return () => {
+      disposed = true;
+      window.clearTimeout(timeoutId);
+    };
+  }, [activeWorkspaceId, currentUser, searchQuery]);
+
+  // Mentions are listed per workspace, so switching reloads them.
+  useEffect(() => {
+    if (!currentUser) return;
+    void loadMentionInbox();
+  }, [activeWorkspaceId, currentUser, loadMentionInbox]);
+
+  useEffect(() => {
+    if (!currentUser || activeWorkspaceId === null || sidebarView !== "directory") return;
+
+    let disposed = false;
+    setPublicRoomsLoading(true);
+    const timeoutId = window.setTimeout(async () => {
+      const { data, error } = await supabase.rpc("list_public_rooms", {
+        p_workspace_id: activeWorkspaceId,
+        p_query: searchQuery.trim() || null
+      });
+      if (disposed) return;
+      setPublicRoomsLoading(false);
+      if (error) {
+        setChatError(error.message);
+        return;
+      }
+      setPublicRooms((data ?? []) as PublicRoomRow[]);
+    }, searchDebounceMs);
+
+    return () => {
+      disposed = true;
+      window.clearTimeout(timeoutId);
+    };
+  }, [activeWorkspaceId, currentUser, searchQuery, sidebarView]);
+
+  const loadOlderMessages = useCallback(async () => {
+    if (
+      !currentUser ||
+      activeConversationId === null ||
+      !hasOlderMessages ||
+      loadingOlderMessagesRef.current
+    ) {
+      return;
+    }
+    const oldest = messages.find((message) => message.id > 0);
+    if (!oldest) return;
+
+    loadingOlderMessagesRef.current = true;
+    setLoadingOlderMessages(true);
+    const stream = messageStreamRef.current;
+    scrollRestoreRef.current = stream
+      ? { height: stream.scrollHeight, top: stream.scrollTop }
+      : null;
+
+    const page = await fetchMessagePage(activeConversationId, currentUser.id, {
+      createdAt: oldest.createdAt,
+      id: oldest.id
+    });
+    if (page) {
+      setMessages((current) => [
+        ...page.messages.filter(
+          (message) => !current.some((existing) => existing.id === message.id)
+        ),
+        ...current
+      ]);
+      setHasOlderMessages(page.hasMore);
+    } else {
+      scrollRestoreRef.current = null;
+    }
+
+    loadingOlderMessagesRef.current = false;
+    setLoadingOlderMessages(false);
+  }, [activeConversationId, currentUser, fetchMessagePage, hasOlderMessages, messages]);
+
+  useLayoutEffect(() => {
+    const stream = messageStreamRef.current;
+    if (!stream) return;
+
+    const restore = scrollRestoreRef.current;
+    if (restore) {
+      // Prepended pages push content down; shift by the added height to stay in place.
+      stream.scrollTop = stream.scrollHeight - restore.height + restore.top;
+      scrollRestoreRef.current = null;
+      return;
+    }
+    if (stickToBottomRef.current) {
+      stream.scrollTop = stream.scrollHeight;
+    }
+  }, [messages]);
+
+  const handleMessageStreamScroll = () => {
+    const stream = messageStreamRef.current;
+    if (!stream) return;
+    stickToBottomRef.current =
+      stream.scrollHeight - stream.scrollTop - stream.clientHeight < 120;
+    if (stream.scrollTop < 120) {
+      void loadOlderMessages();
+    }
+  };
+
+  useEffect(() => {
+    if (highlightMessageId === null || messagesLoading) return;
+    const element = document.getElementById(`message-${highlightMessageId}`);
+    if (!element) {
+      // Page back through history until the search hit is rendered.
+      if (hasOlderMessages) {
+        void loadOlderMessages();
+      }
+      return;
+    }
+
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timeoutId = window.setTimeout(() => {
+      setHighlightMessageId(null);
+    }, searchHighlightMs);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [hasOlderMessages, highlightMessageId, loadOlderMessages, messages, messagesLoading]);
+
+  useEffect(() => {
+    return () => {
+      // Unsent uploads belong to the room they were dropped into.
+      const stale = pendingUploadsRef.current;
+      if (stale.length === 0) return;
+      stale.forEach((upload) => {
+        if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+      });
+      const uploadedPaths = stale
+        .filter((upload) => upload.status === "uploaded")
+        .map((upload) => upload.path);
+      if (uploadedPaths.length > 0) {
+        void supabase.storage.from(attachmentBucket).remove(uploadedPaths);
+      }
+      setPendingUploads([]);
+    };
+  }, [activeConversationId]);
+
+  useEffect(() => {
+    const refreshBefore = Date.now() + 5 * 60 * 1000;
+    const paths = attachments
+      .filter((row) => isImageMimeType(row.mime_type))
+      .map((row) => row.storage_path)
+      .filter(
+        (path) =>
+          !signingPathsRef.current.has(path) &&
+          (signedUrls[path]?.expiresAt ?? 0) < refreshBefore
+      );
+    if (paths.length === 0) return;
+
+    // Paths stay marked when signing fails so a broken object is not retried in a loop.
+    paths.forEach((path) => signingPathsRef.current.add(path));
+    const sign = async () => {
+      const { data, error } = await supabase.storage
+        .from(attachmentBucket)
+        .createSignedUrls(paths, signedUrlTtlSeconds);
+      if (error) return;
+      const expiresAt = Date.now() + signedUrlTtlSeconds * 1000;
+      setSignedUrls((current) => {
+        const next = { ...current };
+        for (const entry of data ?? []) {
+          if (entry.path && entry.signedUrl) {
+            next[entry.path] = { url: entry.signedUrl, expiresAt };
+            signingPathsRef.current.delete(entry.path);
+          }
+        }
+        return next;
+      });
+    };
+
+    void sign();
+  }, [attachments, signedUrls]);
+
+  // Opening a room from search, mentions or an invite switches to its workspace.
+  useEffect(() => {
+    if (activeConversation && activeConversation.workspaceId !== activeWorkspaceId) {
+      setActiveWorkspaceId(activeConversation.workspaceId);
+    }
+  }, [activeConversation, activeWorkspaceId]);
+
+  useEffect(() => {
+    if (activeWorkspaceId === null) return;
+    window.localStorage.setItem(activeWorkspaceStorageKey, String(activeWorkspaceId));
+  }, [activeWorkspaceId]);
+
+  useEffect(() => {
+    if (!roomDialog) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setRoomDialog(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [roomDialog]);
+
+  useEffect(() => {
+    if (!lightboxAttachment) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setLightboxAttachment(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [lightboxAttachment]);
+
+  useEffect(() => {
+    setThreadReplies([]);
+    setLoadedThreadParent(null);
+    setThreadDraft("");
+    setThreadAlsoSend(false);
+    if (!currentUser || threadParentId === null) {
+      return;
+    }
+
+    let disposed = false;
+    const loadThread = async () => {
+      setThreadLoading(true);
+      const [{ data, error }, { data: parentRow, error: parentError }] = await Promise.all([
+        supabase
+          .from("messages")
+          .select(messageColumns)
+          .eq("parent_message_id", threadParentId)
+          .order("created_at", { ascending: true }),
+        supabase.from("messages").select(messageColumns).eq("id", threadParentId).maybeSingle()
+      ]);
+      if (disposed) return;
+      setThreadLoading(false);
+      const failure = error ?? parentError;
+      if (failure) {
+        setChatError(failure.message);
+        return;
+      }
+      if (parentRow) {
+        const row = parentRow as MessageRow;
+        setLoadedThreadParent(
+          toChatMessage(row, currentUser.id, row.profiles?.[0]?.full_name?.trim())
+        );
+      }
+      setThreadReplies(
+        ((data ?? []) as MessageRow[]).map((row) =>
+          toChatMessage(row, currentUser.id, row.profiles?.[0]?.full_name?.trim())
+        )
+      );
+    };
+
+    void loadThread();
+    return () => {
+      disposed = true;
+    };
+  }, [currentUser, threadParentId]);
+
+  useEffect(() => {
+    if (!currentUser || activeConversationId === null) {
+      return;
+    }
+
+    const channel = supabase
+      .channel(`room:${activeConversationId}`, {
+        config: { private: true, broadcast: { self: false } }
+      })
+      .on("broadcast", { event: "typing" }, ({ payload }) => {
+        const signal = payload as TypingPayload;
+        if (
+          signal.conversationId !== activeConversationId ||
+          signal.userId === currentUser.id
+        ) {
+          return;
+        }
+        setTypingByUser((current) => {
+          if (!signal.typing) {
+            if (!current[signal.userId]) return current;
+            const next = { ...current };
+            delete next[signal.userId];
+            return next;
+          }
+          return {
+            ...current,
+            [signal.userId]: {
+              fullName: signal.fullName || "Someone",
+              expiresAt: Date.now() + typingExpiryMs
+            }
+          };
+        });
+      })
+      .on("broadcast", { event: "members" }, () => {
+        setMembersVersion((current) => current + 1);
+      })
+      // Only the message id travels here; the reactions themselves are read back through RLS.
+      .on("broadcast", { event: "reactions" }, ({ payload }) => {
+        const signal = payload as ReactionSignalPayload;
+        if (signal.conversationId !== activeConversationId) return;
+        void reloadReactions(signal.messageId);
+      })
+      .subscribe();
+
+    roomChannelRef.current = channel;
+    lastTypingSentAtRef.current = 0;
+
+    return () => {
+      roomChannelRef.current = null;
+      setTypingByUser({});
+      void supabase.removeChannel(channel);
+    };
+  }, [activeConversationId, currentUser, reloadReactions]);
+
+  useEffect(() => {
+    if (Object.keys(typingByUser).length === 0) {
+      return;
+    }
+
+    const intervalId = window.setInterval(() => {
+      const now = Date.now();
+      setTypingByUser((current) => {
+        const live = Object.entries(current).filter(([, entry]) => entry.expiresAt > now);
+        return live.length === Object.keys(current).length
+          ? current
+          : Object.fromEntries(live);
+      });
+    }, 1000);
+
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, [typingByUser]);
+
+  useEffect(() => {
+    if (!currentUser || activeConversationId === null) {
+      setRoomMembers([]);
+      return;
+    }
+
+    let disposed = false;
+    const loadRoomMembers = async () => {
+      const { data, error } = await supabase
+        .from("conversation_members")
+        .select("user_id, role, joined_at, profiles:user_id(full_name, team_name, last_seen_at)")
+        .eq("conversation_id", activeConversationId)
+        .order("joined_at", { ascending: true });
+      if (disposed) return;
+      if (error) {
+        setChatError(error.message);
+        return;
+      }
+      setRoomMembers(
+        ((data ?? []) as RoomMemberQueryRow[]).map((row) => {
+          const profile = Array.isArray(row.profiles) ? row.profiles[0] : row.profiles;
+          return {
+            user_id: row.user_id,
+            full_name: profile?.full_name ?? null,
+            team_name: profile?.team_name ?? null,
+            last_seen_at: profile?.last_seen_at ?? null,
+            role: row.role,
+            joined_at: row.joined_at
+          };
+        })
+      );
+    };
+
+    void loadRoomMembers();
+    return () => {
+      disposed = true;
+    };
+  }, [activeConversationId, currentUser, membersVersion]);
+
+  useEffect(() => {
+    setInvites([]);
+    setInviteRedemptions([]);
+    if (!invitePanelOpen || !canInvite || activeConversationId === null) {
+      return;
+    }
+    void loadInvites(activeConversationId);
+  }, [activeConversationId, canInvite, invitePanelOpen, loadInvites, membersVersion]);
+
+  useEffect(() => {
+    setReadReceipts([]);
+    setReceiptPopoverMessageId(null);
+    if (!currentUser || activeConversationId === null) {
+      return;
+    }
+
+    let disposed = false;
+    const loadReadReceipts = async () => {
+      const { data, error } = await supabase.rpc("list_room_read_receipts", {
+        p_conversation_id: activeConversationId
+      });
+      if (disposed) return;
+      if (error) {
+        setChatError(error.message);
+        return;
+      }
+      setReadReceipts((data ?? []) as ReadReceiptRow[]);
+    };
+
+    void loadReadReceipts();
+    return () => {
+      disposed = true;
+    };
+  }, [activeConversationId, currentUser]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const handleCallChange = (raw: Partial<CallRequestRow>) => {
+      const call = normalizeCall(raw);
+      if (!call) return;
+
+      if (call.status === "pending") {
+        if (call.requesterId === currentUser.id) {
+          setPendingOutgoingCall(call);
+          setCallStatus("requesting");
+        } else if (!declinedCallIdsRef.current.has(call.id)) {
+          setIncomingCall(call);
+          setCallStatus((current) => (current === "idle" ? "ringing" : current));
+        }
+        return;
+      }
+
+      if (call.status === "accepted") {
+        if (activeCallRef.current?.id === call.id) return;
+        if (pendingOutgoingCallRef.current?.id === call.id) {
+          // Someone picked up; their offer is on its way over the call channel.
+          setActiveConversationId(call.conversationId);
+          setPendingOutgoingCall(null);
+          setCallError(null);
+          setActiveCall(call);
+          setCallStatus("connecting");
+          return;
+        }
+        // The call is under way; everyone else in the room can still join late.
+        if (!declinedCallIdsRef.current.has(call.id)) {
+          setIncomingCall(call);
+          setCallStatus((current) => (current === "ringing" ? "idle" : current));
+        }
+        return;
+      }
+
+      if (
+        call.status === "ended" ||
+        call.status === "cancelled" ||
+        call.status === "rejected"
+      ) {
+        const isRelated =
+          activeCallRef.current?.id === call.id ||
+          incomingCallRef.current?.id === call.id ||
+          pendingOutgoingCallRef.current?.id === call.id;
+        if (!isRelated) return;
+
+        declinedCallIdsRef.current.delete(call.id);
+        if (activeCallRef.current?.id === call.id || pendingOutgoingCallRef.current?.id === call.id) {
+          resetCallMedia();
+          setActiveCall(null);
+          setPendingOutgoingCall(null);
+          setCallStatus("idle");
+        }
+        if (incomingCallRef.current?.id === call.id) {
+          setIncomingCall(null);
+          setCallStatus((current) => (current === "ringing" ? "idle" : current));
+        }
+        if (call.status === "rejected" && call.requesterId === currentUser.id) {
+          setCallError("Call was declined.");
+        }
+      }
+    };
+
+    const channel = supabase
+      .channel(`call-requests-${currentUser.id}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "call_requests" },
+        (payload) => handleCallChange(payload.new as Partial<CallRequestRow>)
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "call_requests" },
+        (payload) => handleCallChange(payload.new as Partial<CallRequestRow>)
+      )
+      .subscribe();
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [currentUser, normalizeCall, resetCallMedia]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const handleOffer = async (signal: SignalPayload) => {
+      if (!signal.sdp) return;
+
+      let call = activeCallRef.current;
+      if (!call || call.id !== signal.callId) {
+        const pending = pendingOutgoingCallRef.current;
+        if (!pending || pending.id !== signal.callId) return;
+        call = { ...pending, status: "accepted" };
+        setPendingOutgoingCall(null);
+        setActiveCall(call);
+        setActiveConversationId(call.conversationId);
+      }
+
+      // Two people joining at once may offer to each other; the lower user id keeps its offer.
+      const existing = peerConnectionsRef.current.get(signal.from);
+      if (existing?.signalingState === "have-local-offer" && currentUser.id < signal.from) {
+        return;
+      }
+
+      // An ICE restart renegotiates the connection we already have. An offer of our own that is
+      // still waiting on an answer goes first; the restarting side simply tries again.
+      if (signal.restart && existing) {
+        if (existing.signalingState === "have-local-offer") return;
+        try {
+          const iceServers = await resolveIceServers(reconnectWindowMs);
+          existing.setConfiguration({ ...existing.getConfiguration(), iceServers });
+          await existing.setRemoteDescription(signal.sdp);
+          const answer = await existing.createAnswer();
+          await existing.setLocalDescription(answer);
+          await sendCallSignal("webrtc-answer", {
+            callId: call.id,
+            conversationId: call.conversationId,
+            from: currentUser.id,
+            to: signal.from,
+            sdp: answer
+          });
+        } catch {
+          // Whichever side is still reconnecting sends another restart.
+        }
+        return;
+      }
+
+      try {
+        setCallStatus((current) => (current === "in-call" ? current : "connecting"));
+        const stream = await ensureLocalStream();
+        const iceServers = await resolveIceServers();
+        const peer = createPeerConnection(
+          call,
+          signal.from,
+          stream,
+          currentUser.id,
+          iceServers
+        );
+        await peer.setRemoteDescription(signal.sdp);
+        prepareVideoSender(peer, stream);
+        await flushPendingRemoteCandidates(signal.from);
+        const answer = await peer.createAnswer();
+        await peer.setLocalDescription(answer);
+        await sendCallSignal("webrtc-answer", {
+          callId: call.id,
+          conversationId: call.conversationId,
+          from: currentUser.id,
+          to: signal.from,
+          sdp: answer
+        });
+        if (screenTrackRef.current) {
+          await sendCallSignal("screen-share", {
+            callId: call.id,
+            conversationId: call.conversationId,
+            from: currentUser.id,
+            to: signal.from,
+            sharing: true
+          });
+        }
+      } catch (error) {
+        setCallStatus("error");
+        setCallError(
+          error instanceof Error ? error.message : "Could not answer the call."
+        );
+      }
+    };
+
+    const handleAnswer = async (signal: SignalPayload) => {
+      const peer = peerConnectionsRef.current.get(signal.from);
+      // A restart we rolled back in favour of theirs no longer expects an answer.
+      if (!signal.sdp || !peer || peer.signalingState !== "have-local-offer") return;
+
+      await peer.setRemoteDescription(signal.sdp);
+      await flushPendingRemoteCandidates(signal.from);
+    };
+
+    const handleIce = async (signal: SignalPayload) => {
+      if (!signal.candidate) return;
+
+      const peer = peerConnectionsRef.current.get(signal.from);
+      try {
+        if (peer?.remoteDescription) {
+          await peer.addIceCandidate(signal.candidate);
+        } else {
+          // The offer may still be waiting on the camera; hold on to its candidates.
+          const queued = pendingRemoteCandidatesRef.current.get(signal.from) ?? [];
+          pendingRemoteCandidatesRef.current.set(signal.from, [...queued, signal.candidate]);
+        }
+      } catch {
+        // Ignore ICE failures for MVP flow.
+      }
+    };
+
+    const handleParticipantLeft = (signal: SignalPayload) => {
+      if (activeCallRef.current?.id !== signal.callId) return;
+      closePeer(signal.from);
+    };
+
+    const handleScreenShare = (signal: SignalPayload) => {
+      if (activeCallRef.current?.id !== signal.callId) return;
+      setScreenSharerId((current) => {
+        if (signal.sharing) return signal.from;
+        return current === signal.from ? null : current;
+      });
+    };
+
+    callSignalHandlerRef.current = async (event, signal) => {
+      if (signal.to && signal.to !== currentUser.id) return;
+
+      switch (event) {
+        case "webrtc-offer":
+          await handleOffer(signal);
+          return;
+        case "webrtc-answer":
+          await handleAnswer(signal);
+          return;
+        case "webrtc-ice":
+          await handleIce(signal);
+          return;
+        case "participant-left":
+          handleParticipantLeft(signal);
+          return;
+        case "screen-share":
+          handleScreenShare(signal);
+          return;
+      }
+    };
+
+    return () => {
+      callSignalHandlerRef.current = null;
+    };
+  }, [
+    closePeer,
+    createPeerConnection,
+    currentUser,
+    ensureLocalStream,
+    flushPendingRemoteCandidates,
+    prepareVideoSender,
     resolveIceServers,
-    resetCallMedia,
-    sendCallSignal,
-    startCallerHandshake
+    sendCallSignal
+  ]);
+
+  useEffect(() => {
+    window.localStorage.setItem(callMediaStorageKey, JSON.stringify(callMediaPreferences));
+  }, [callMediaPreferences]);
+
+  // Unplugging a headset ends its track; fall back to the default, and move back when the
+  // chosen device returns.
+  useEffect(() => {
+    const devices = navigator.mediaDevices;
+    if (!devices?.enumerateDevices) return;
+
+    const handleDeviceChange = async () => {
+      const available = (await devices.enumerateDevices()).filter((device) => device.deviceId);
+      setMediaDevices(available);
+
+      const stream = await localStreamRequestRef.current?.catch(() => null);
+      if (!stream) return;
+      const preferences = callMediaPreferencesRef.current;
+      (["audio", "video"] as const).forEach((kind) => {
+        const track = stream.getTracks().find((item) => item.kind === kind);
+        // A camera that is switched off stays off.
+        if (!track) return;
+        const inputs = available.filter((device) => device.kind === `${kind}input`);
+        const preferredId = kind === "audio" ? preferences.micId : preferences.cameraId;
+        const currentId = track.getSettings().deviceId;
+        const lost =
+          track.readyState === "ended" || !inputs.some((device) => device.deviceId === currentId);
+        const preferredReturned =
+          Boolean(preferredId) &&
+          preferredId !== currentId &&
+          inputs.some((device) => device.deviceId === preferredId);
+        if (lost || preferredReturned) {
+          void applyCallDevice(kind);
+        }
+      });
+    };
+
+    const listener = () => {
+      void handleDeviceChange();
+    };
+    devices.addEventListener("devicechange", listener);
+    return () => {
+      devices.removeEventListener("devicechange", listener);
+    };
+  }, [applyCallDevice]);
+
+  // The pre-call preview uses the same devices and fallbacks a call would.
+  useEffect(() => {
+    if (!callSetupOpen || activeCall) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    const preferences: CallMediaPreferences = {
+      ...defaultCallMediaPreferences,
+      audioOnly: callMediaPreferences.audioOnly,
+      micId: callMediaPreferences.micId,
+      cameraId: callMediaPreferences.cameraId
+    };
+    try {
+      assertMediaContext();
+    } catch (error) {
+      setCallError(error instanceof Error ? error.message : "This device cannot start calls here.");
+      return;
+    }
+
+    void openUserMedia(preferences)
+      .then((opened) => {
+        if (cancelled) {
+          opened.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = opened;
+        setPreviewStream(opened);
+        void refreshMediaDevices();
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setCallError(
+          error instanceof Error ? error.message : "Could not open the camera or microphone."
+        );
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+      setPreviewStream(null);
+    };
+  }, [
+    activeCall,
+    assertMediaContext,
+    callMediaPreferences.audioOnly,
+    callMediaPreferences.cameraId,
+    callMediaPreferences.micId,
+    callSetupOpen,
+    refreshMediaDevices
   ]);
 
-  useEffect(() => {
-    if (callStatus !== "connecting") {
+  // Keep this client's seat in the call; one that stops reporting is treated as gone.
+  useEffect(() => {
+    const callId = activeCall?.id ?? pendingOutgoingCall?.id;
+    if (callId === undefined) return;
+
+    const touch = () => {
+      void supabase.rpc("touch_call", { p_call_id: callId });
+    };
+    touch();
+    const intervalId = window.setInterval(touch, callHeartbeatMs);
+    return () => window.clearInterval(intervalId);
+  }, [activeCall?.id, pendingOutgoingCall?.id]);
+
+  // Leave a call's channel once this client is no longer part of the call.
+  useEffect(() => {
+    const liveCallIds = new Set(
+      [activeCall?.id, pendingOutgoingCall?.id].filter((id): id is number => id !== undefined)
+    );
+    for (const callId of [...callChannelsRef.current.keys()]) {
+      if (!liveCallIds.has(callId)) {
+        closeCallChannel(callId);
+      }
+    }
+  }, [activeCall, closeCallChannel, pendingOutgoingCall]);
+
+  useEffect(() => {
+    if (currentUser) return;
+    for (const callId of [...callChannelsRef.current.keys()]) {
+      closeCallChannel(callId);
+    }
+  }, [closeCallChannel, currentUser]);
+
+  // A call that started before this client was watching can still be joined.
+  useEffect(() => {
+    if (!currentUser || activeConversationId === null) return;
+
+    let disposed = false;
+    const loadLiveCall = async () => {
+      const { data, error } = await supabase
+        .from("call_requests")
+        .select("id, conversation_id, requester_id, accepted_by, status, created_at, updated_at")
+        .eq("conversation_id", activeConversationId)
+        .in("status", ["pending", "accepted"])
+        .order("created_at", { ascending: false })
+        .limit(1);
+      if (disposed || error) return;
+
+      const call = normalizeCall(((data ?? [])[0] ?? {}) as Partial<CallRequestRow>);
+      if (!call || declinedCallIdsRef.current.has(call.id)) return;
+      if (activeCallRef.current?.id === call.id || pendingOutgoingCallRef.current?.id === call.id) {
+        return;
+      }
+      setIncomingCall((current) => current ?? call);
+    };
+
+    void loadLiveCall();
+    return () => {
+      disposed = true;
+    };
+  }, [activeConversationId, currentUser, normalizeCall]);
+
+  useEffect(() => {
+    if (!currentUser || roomCallId === null) {
+      setCallParticipants([]);
+      return;
+    }
+
+    let disposed = false;
+    const loadParticipants = async () => {
+      const { data, error } = await supabase
+        .from("call_participants")
+        .select("call_id, user_id, joined_at, left_at")
+        .eq("call_id", roomCallId)
+        .is("left_at", null)
+        .order("joined_at", { ascending: true });
+      if (disposed) return;
+      if (error) {
+        setCallError(error.message);
+        return;
+      }
+      setCallParticipants((data ?? []) as CallParticipantRow[]);
+    };
+
+    void loadParticipants();
+    const channel = supabase
+      .channel(`call-participants-${roomCallId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "call_participants",
+          filter: `call_id=eq.${roomCallId}`
+        },
+        (payload) => {
+          const row = payload.new as Partial<CallParticipantRow>;
+          // Covers people who drop out without getting a "participant-left" signal out.
+          if (
+            row.left_at &&
+            row.user_id &&
+            row.user_id !== currentUser.id &&
+            activeCallRef.current?.id === roomCallId
+          ) {
+            closePeer(row.user_id);
+          }
+          void loadParticipants();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      disposed = true;
+      void supabase.removeChannel(channel);
+    };
+  }, [closePeer, currentUser, roomCallId]);
+
+  // Back on a network: retry right away instead of waiting for the next attempt.
+  useEffect(() => {
+    const handleOnline = () => {
+      reconnectsRef.current.forEach((reconnect) => reconnect.retryNow());
+    };
+    window.addEventListener("online", handleOnline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (callStatus !== "connecting") {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setCallError(
+        "Still connecting. This usually means peer networking is blocked; TURN server is required."
+      );
+    }, 12000);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [callStatus]);
+
+  const handleAuthSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (authLoading) return;
+    setAuthLoading(true);
+    setAuthError(null);
+    setAuthNotice(null);
+
+    if (authMode === "signin") {
+      const { error } = await supabase.auth.signInWithPassword({
+        email,
+        password
+      });
+
+      if (error) {
+        setAuthError(error.message);
+      }
+      setAuthLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        emailRedirectTo: `${window.location.origin}${window.location.pathname}`,
+        data: {
+          full_name: fullName,
+          team_name: teamName
+        }
+      }
+    });
+
+    if (error) {
+      setAuthError(error.message);
+      setAuthLoading(false);
+      return;
+    }
+
+    if (!data.session) {
+      setAuthNotice("Account created. Check your email to confirm, then sign in.");
+      setAuthMode("signin");
+    }
+
+    setAuthLoading(false);
+  };
+
+  const switchWorkspace = (workspaceId: number) => {
+    if (workspaceId === activeWorkspaceId) return;
+    setActiveWorkspaceId(workspaceId);
+    setActiveConversationId(
+      conversations.find((conversation) => conversation.workspaceId === workspaceId)?.id ?? null
+    );
+    setInvitePanelOpen(false);
+  };
+
+  const createWorkspace = async () => {
+    const name = window.prompt("Name the new workspace")?.trim();
+    if (!name) return;
+
+    const { data, error } = await supabase.rpc("create_workspace", { p_name: name });
+    if (error) {
+      setChatError(error.message);
+      return;
+    }
+    await loadWorkspaces();
+    const workspaceId = Number(data);
+    if (Number.isFinite(workspaceId)) {
+      switchWorkspace(workspaceId);
+    }
+  };
+
+  const inviteToWorkspace = async () => {
+    if (activeWorkspaceId === null) return;
+    const { data, error } = await supabase.rpc("create_workspace_invite", {
+      p_workspace_id: activeWorkspaceId
+    });
+    if (error) {
+      setChatError(error.message);
+      return;
+    }
+    await copyInviteLink(workspaceInviteUrlFor(String(data ?? "")));
+  };
+
+  const leaveWorkspace = async () => {
+    if (!activeWorkspace) return;
+    if (
+      !window.confirm(
+        `Leave ${activeWorkspace.name}? You will also leave all of its rooms and direct messages.`
+      )
+    ) {
+      return;
+    }
+
+    const { error } = await supabase.rpc("leave_workspace", {
+      p_workspace_id: activeWorkspace.id
+    });
+    if (error) {
+      setChatError(error.message);
+      return;
+    }
+    const next = workspaces.find((workspace) => workspace.id !== activeWorkspace.id);
+    if (next) {
+      switchWorkspace(next.id);
+    }
+    await loadWorkspaces();
+    await loadConversations();
+  };
+
+  const createConversation = () => {
+    if (!currentUser || activeWorkspaceId === null || creatingConversation) return;
+    setRoomNameDraft("");
+    setRoomDescriptionDraft("Team discussion");
+    setRoomVisibilityDraft("private");
+    setRoomDialogError(null);
+    setRoomEvents([]);
+    setRoomDialog("create");
+  };
+
+  const openRoomSettings = async () => {
+    if (!activeConversation || activeConversation.kind !== "room") return;
+    setRoomNameDraft(activeConversation.name);
+    setRoomDescriptionDraft(activeConversation.description);
+    setRoomVisibilityDraft(activeConversation.visibility);
+    setRoomDialogError(null);
+    setRoomEvents([]);
+    setRoomDialog("edit");
+
+    const { data, error } = await supabase.rpc("list_room_events", {
+      p_conversation_id: activeConversation.id
+    });
+    if (error) {
+      setRoomDialogError(error.message);
+      return;
+    }
+    setRoomEvents((data ?? []) as RoomEventRow[]);
+  };
+
+  const closeRoomDialog = () => {
+    if (roomDialogBusy) return;
+    setRoomDialog(null);
+  };
+
+  const submitRoomDialog = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = roomNameDraft.trim();
+    if (!name || roomDialogBusy) return;
+
+    setRoomDialogBusy(true);
+    setRoomDialogError(null);
+    if (roomDialog === "create") {
+      setCreatingConversation(true);
+      const { data, error } = await supabase.rpc("create_conversation_room", {
+        p_workspace_id: activeWorkspaceId,
+        p_name: name,
+        p_description: roomDescriptionDraft.trim(),
+        p_visibility: roomVisibilityDraft
+      });
+      setCreatingConversation(false);
+      if (error) {
+        setRoomDialogError(error.message);
+        setRoomDialogBusy(false);
+        return;
+      }
+
+      await loadConversations();
+      const createdConversationId = Number(data);
+      if (Number.isFinite(createdConversationId)) {
+        setActiveConversationId(createdConversationId);
+      }
+    } else if (activeConversationId !== null) {
+      const { error } = await supabase.rpc("update_room_settings", {
+        p_conversation_id: activeConversationId,
+        p_name: name,
+        p_description: roomDescriptionDraft.trim(),
+        p_visibility: roomVisibilityDraft
+      });
+      if (error) {
+        setRoomDialogError(error.message);
+        setRoomDialogBusy(false);
+        return;
+      }
+      applyConversationSettings(activeConversationId, {
+        name,
+        description: roomDescriptionDraft.trim(),
+        visibility: roomVisibilityDraft
+      });
+    }
+    setRoomDialogBusy(false);
+    setRoomDialog(null);
+  };
+
+  const toggleRoomArchived = async () => {
+    if (!activeConversation) return;
+    const archiving = !activeConversation.archivedAt;
+    if (
+      archiving &&
+      !window.confirm(`Archive ${activeConversation.name}? It becomes read-only for everyone.`)
+    ) {
+      return;
+    }
+
+    setRoomDialogBusy(true);
+    setRoomDialogError(null);
+    const { error } = await supabase.rpc("set_room_archived", {
+      p_conversation_id: activeConversation.id,
+      p_archived: archiving
+    });
+    setRoomDialogBusy(false);
+    if (error) {
+      setRoomDialogError(error.message);
+      return;
+    }
+    applyConversationSettings(activeConversation.id, {
+      archivedAt: archiving ? new Date().toISOString() : null
+    });
+    setRoomDialog(null);
+  };
+
+  const deleteRoom = async () => {
+    if (!activeConversation) return;
+    const typed = window.prompt(
+      `Delete ${activeConversation.name} and all of its messages? Type the room name to confirm.`
+    );
+    if (typed?.trim() !== activeConversation.name) return;
+
+    setRoomDialogBusy(true);
+    setRoomDialogError(null);
+    const { error } = await supabase.rpc("delete_room", {
+      p_conversation_id: activeConversation.id
+    });
+    setRoomDialogBusy(false);
+    if (error) {
+      setRoomDialogError(error.message);
+      return;
+    }
+    setRoomDialog(null);
+    dropConversation(activeConversation.id);
+  };
+
+  const joinPublicRoom = async (room: PublicRoomRow) => {
+    if (room.is_member) {
+      setActiveConversationId(room.id);
+      setSidebarView("rooms");
+      return;
+    }
+    if (joiningRoomId !== null) return;
+
+    setJoiningRoomId(room.id);
+    const { error } = await supabase.rpc("join_public_room", {
+      p_conversation_id: room.id
+    });
+    setJoiningRoomId(null);
+    if (error) {
+      setChatError(error.message);
+      return;
+    }
+
+    setPublicRooms((current) =>
+      current.map((item) =>
+        item.id === room.id
+          ? { ...item, is_member: true, member_count: item.member_count + 1 }
+          : item
+      )
+    );
+    await loadConversations();
+    setActiveConversationId(room.id);
+    setSidebarView("rooms");
+  };
+
+  const copyInviteLink = async (inviteUrl: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      setInviteFeedback("Invite link copied. Share it with the person you want to invite.");
+    } catch {
+      window.prompt("Copy this invite link", inviteUrl);
+      setInviteFeedback("Invite link generated.");
+    }
+  };
+
+  const createInviteLink = async () => {
+    if (!currentUser || activeConversationId === null) {
+      return;
+    }
+    setInviteFeedback(null);
+
+    const { data, error } = await supabase.rpc("create_room_invite", {
+      p_conversation_id: activeConversationId,
+      p_max_uses: inviteMaxUses,
+      p_expires_in_minutes: inviteExpiryMinutes
+    });
+
+    if (error) {
+      setInviteFeedback(`Could not create invite: ${error.message}`);
+      return;
+    }
+
+    const token = String(data ?? "");
+    if (!token) {
+      setInviteFeedback("Invite token generation failed.");
+      return;
+    }
+
+    await copyInviteLink(inviteUrlFor(token));
+    void loadInvites(activeConversationId);
+  };
+
+  const revokeInvite = async (inviteId: number) => {
+    if (activeConversationId === null) return;
+    if (!window.confirm("Revoke this invite? The link stops working immediately.")) return;
+
+    setInviteFeedback(null);
+    const { error } = await supabase.rpc("revoke_room_invite", { p_invite_id: inviteId });
+    if (error) {
+      setInviteFeedback(`Could not revoke invite: ${error.message}`);
+      return;
+    }
+    void loadInvites(activeConversationId);
+  };
+
+  const regenerateInvite = async (inviteId: number) => {
+    if (activeConversationId === null) return;
+
+    setInviteFeedback(null);
+    const { data, error } = await supabase.rpc("regenerate_room_invite", {
+      p_invite_id: inviteId
+    });
+    if (error) {
+      setInviteFeedback(`Could not regenerate invite: ${error.message}`);
+      return;
+    }
+    const token = String(data ?? "");
+    if (token) {
+      await copyInviteLink(inviteUrlFor(token));
+    }
+    void loadInvites(activeConversationId);
+  };
+
+  const requestCall = async (conversationId = activeConversationId) => {
+    if (!currentUser || conversationId === null) return;
+    if (callStatus === "connecting" || callStatus === "in-call" || callStatus === "requesting") {
+      return;
+    }
+    // One call per room: join the one that is already going.
+    if (incomingCall && incomingCall.conversationId === conversationId) {
+      await joinCall(incomingCall);
+      return;
+    }
+
+    try {
+      assertMediaContext();
+    } catch (error) {
+      setCallStatus("error");
+      setCallError(
+        error instanceof Error ? error.message : "This device cannot start calls here."
+      );
+      return;
+    }
+
+    setCallError(null);
+    const { data, error } = await supabase
+      .from("call_requests")
+      .insert({
+        conversation_id: conversationId,
+        requester_id: currentUser.id,
+        status: "pending"
+      })
+      .select(
+        "id, conversation_id, requester_id, accepted_by, status, created_at, updated_at"
+      )
+      .single();
+
+    if (error) {
+      setCallStatus("error");
+      setCallError(error.message);
+      return;
+    }
+
+    const pending = normalizeCall(data as Partial<CallRequestRow>);
+    if (!pending) {
+      setCallStatus("error");
+      setCallError("Failed to create call request.");
+      return;
+    }
+
+    setPendingOutgoingCall(pending);
+    setCallStatus("requesting");
+    // Join now so the first offer from whoever picks up reaches us.
+    void openCallChannel(pending.id).catch((joinError: unknown) => {
+      setCallError(
+        joinError instanceof Error ? joinError.message : "Could not join the call channel."
+      );
+    });
+  };
+
+  const joinCall = async (call: ActiveCall) => {
+    if (!currentUser) return;
+    if (activeCall && activeCall.id !== call.id) {
+      setCallError("Leave your current call first.");
+      return;
+    }
+
+    try {
+      assertMediaContext();
+    } catch (error) {
+      setCallStatus("error");
+      setCallError(
+        error instanceof Error ? error.message : "This device cannot join calls here."
+      );
+      return;
+    }
+
+    const { data, error } = await supabase.rpc("join_call", { p_call_id: call.id });
+    if (error) {
+      setCallStatus("error");
+      setCallError(error.message);
+      return;
+    }
+
+    const joinedCall: ActiveCall = { ...call, status: "accepted" };
+    declinedCallIdsRef.current.delete(call.id);
+    setActiveConversationId(joinedCall.conversationId);
+    setIncomingCall(null);
+    setActiveCall(joinedCall);
+    setCallStatus("connecting");
+    setCallError(null);
+
+    const others = ((data ?? []) as Array<{ user_id: string }>)
+      .map((row) => row.user_id)
+      .filter((userId) => userId !== currentUser.id);
+    try {
+      await openCallChannel(joinedCall.id);
+      const stream = await ensureLocalStream();
+      const iceServers = await resolveIceServers();
+      await Promise.all(
+        others.map((userId) =>
+          connectToParticipant(joinedCall, userId, currentUser.id, stream, iceServers)
+        )
+      );
+    } catch (joinError) {
+      // Don't hold a slot in a call this client never made it into.
+      await supabase.rpc("leave_call", { p_call_id: joinedCall.id });
+      resetCallMedia();
+      setActiveCall(null);
+      setCallStatus("error");
+      setCallError(
+        joinError instanceof Error
+          ? joinError.message
+          : "Could not start camera/mic for the call."
+      );
+    }
+  };
+
+  const rejectIncomingCall = async () => {
+    if (!incomingCall || !currentUser) return;
+
+    // In a DM the caller is waiting on exactly one person, so tell them.
+    const conversation = conversations.find((item) => item.id === incomingCall.conversationId);
+    if (conversation?.kind === "direct" && incomingCall.status === "pending") {
+      const { error } = await supabase.rpc("reject_call", { p_call_id: incomingCall.id });
+
+      if (error) {
+        setCallStatus("error");
+        setCallError(error.message);
+        return;
+      }
+    }
+
+    declinedCallIdsRef.current.add(incomingCall.id);
+    setIncomingCall(null);
+    setCallStatus((current) => (current === "ringing" ? "idle" : current));
+  };
+
+  const endCall = async () => {
+    if (!currentUser) return;
+
+    const current = activeCall || pendingOutgoingCall;
+    if (!current) {
+      await rejectIncomingCall();
+      return;
+    }
+
+    await sendCallSignal("participant-left", {
+      callId: current.id,
+      conversationId: current.conversationId,
+      from: currentUser.id
+    });
+
+    // Nobody picked up yet, so the caller cancels outright. If someone just did, cancelling
+    // fails and the caller leaves like anyone else.
+    if (current === pendingOutgoingCall) {
+      const { error } = await supabase.rpc("cancel_call", { p_call_id: current.id });
+      if (!error) {
+        resetCallMedia();
+        setPendingOutgoingCall(null);
+        setCallStatus("idle");
+        return;
+      }
+    }
+
+    // The last person out ends the call.
+    const { data, error } = await supabase.rpc("leave_call", { p_call_id: current.id });
+    if (error) {
+      setCallStatus("error");
+      setCallError(error.message);
+      return;
+    }
+
+    resetCallMedia();
+    setActiveCall(null);
+    setPendingOutgoingCall(null);
+    setIncomingCall(data === true && current.status === "accepted" ? current : null);
+    setCallStatus("idle");
+  };
+
+  const startScreenShare = async () => {
+    if (!activeCall || !currentUser || screenTrackRef.current) return;
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      setCallError("This browser cannot share the screen.");
+      return;
+    }
+
+    let display: MediaStream;
+    try {
+      display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+    } catch (error) {
+      // Closing the browser's picker is not an error.
+      if (error instanceof DOMException && error.name === "NotAllowedError") return;
+      setCallError(error instanceof Error ? error.message : "Could not share the screen.");
+      return;
+    }
+
+    const [screenTrack] = display.getVideoTracks();
+    if (!screenTrack) return;
+    screenTrack.contentHint = "detail";
+    // The browser's own "Stop sharing" button ends the track.
+    screenTrack.onended = () => {
+      void stopScreenShare();
+    };
+    screenTrackRef.current = screenTrack;
+    setScreenStream(display);
+    await replaceOutgoingTrack("video", screenTrack);
+    await sendCallSignal("screen-share", {
+      callId: activeCall.id,
+      conversationId: activeCall.conversationId,
+      from: currentUser.id,
+      sharing: true
+    });
+  };
+
+  const updateCallMediaPreferences = (patch: Partial<CallMediaPreferences>) => {
+    const next = { ...callMediaPreferencesRef.current, ...patch };
+    callMediaPreferencesRef.current = next;
+    setCallMediaPreferences(next);
+  };
+
+  const selectCallDevice = (kind: "audio" | "video", deviceId: string) => {
+    updateCallMediaPreferences(kind === "audio" ? { micId: deviceId } : { cameraId: deviceId });
+    if (!localStream || (kind === "video" && isCameraOff)) return;
+    void applyCallDevice(kind);
+  };
+
+  // Turning the camera off releases it, so the device light goes out too.
+  const toggleCamera = async () => {
+    if (!localStream) return;
+    if (!isCameraOff) {
+      await swapLocalTrack("video", null);
+      setIsCameraOff(true);
+      return;
+    }
+
+    try {
+      const track = await openDeviceTrack("video", callMediaPreferencesRef.current.cameraId);
+      await swapLocalTrack("video", track);
+      setIsCameraOff(false);
+      void refreshMediaDevices();
+    } catch (error) {
+      setCallError(error instanceof Error ? error.message : "Could not turn the camera on.");
+    }
+  };
+
+  const toggleMic = () => {
+    if (!localStream) return;
+    const nextMuted = !isMicMuted;
+    localStream.getAudioTracks().forEach((track) => {
+      track.enabled = !nextMuted;
+    });
+    setIsMicMuted(nextMuted);
+  };
+
+  const broadcastTyping = (typing: boolean) => {
+    const channel = roomChannelRef.current;
+    if (!channel || !currentUser || activeConversationId === null) return;
+
+    const now = Date.now();
+    if (typing && now - lastTypingSentAtRef.current < typingThrottleMs) {
       return;
     }
+    lastTypingSentAtRef.current = typing ? now : 0;
+
+    void channel.send({
+      type: "broadcast",
+      event: "typing",
+      payload: {
+        conversationId: activeConversationId,
+        userId: currentUser.id,
+        fullName: presenceNameFor(currentUser),
+        typing
+      } satisfies TypingPayload
+    });
+  };
 
-    const timeoutId = window.setTimeout(() => {
-      setCallError(
-        "Still connecting. This usually means peer networking is blocked; TURN server is required."
-      );
-    }, 12000);
-
-    return () => {
-      window.clearTimeout(timeoutId);
-    };
-  }, [callStatus]);
+  const handleDraftChange = (value: string, caret: number) => {
+    setMessageDraft(value);
+    setMentionQuery(findMentionQuery(value, caret));
+    setMentionIndex(0);
+    if (value.trim()) {
+      broadcastTyping(true);
+    } else if (lastTypingSentAtRef.current > 0) {
+      broadcastTyping(false);
+    }
+  };
 
-  const handleAuthSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
+  const pickMention = (member: RoomMemberRow) => {
+    if (!mentionQuery) return;
+    const name = member.full_name?.trim();
+    if (!name) return;
+    const caret = mentionQuery.start + mentionQuery.query.length + 1;
+    const inserted = `@${name} `;
+    const next =
+      messageDraft.slice(0, mentionQuery.start) + inserted + messageDraft.slice(caret);
+    setMessageDraft(next);
+    setMentionQuery(null);
+    const position = mentionQuery.start + inserted.length;
+    window.requestAnimationFrame(() => {
+      composerInputRef.current?.focus();
+      composerInputRef.current?.setSelectionRange(position, position);
+    });
+  };
 
-    if (authLoading) return;
-    setAuthLoading(true);
-    setAuthError(null);
-    setAuthNotice(null);
+  const openDirectConversation = async (userId: string) => {
+    setChatError(null);
+    const existing = workspaceConversations.find(
+      (conversation) => conversation.kind === "direct" && conversation.directUserId === userId
+    );
+    if (existing) {
+      setActiveConversationId(existing.id);
+      return existing.id;
+    }
 
-    if (authMode === "signin") {
-      const { error } = await supabase.auth.signInWithPassword({
-        email,
-        password
-      });
+    const { data, error } = await supabase.rpc("get_or_create_direct_conversation", {
+      p_workspace_id: activeWorkspaceId,
+      p_other_user: userId
+    });
+    if (error) {
+      setChatError(error.message);
+      return null;
+    }
+    await loadConversations();
+    const conversationId = Number(data);
+    if (!Number.isFinite(conversationId)) return null;
+    setActiveConversationId(conversationId);
+    return conversationId;
+  };
 
-      if (error) {
-        setAuthError(error.message);
-      }
-      setAuthLoading(false);
-      return;
+  // Calling someone from the member list rings them alone, in your DM with them.
+  const callMember = async (userId: string) => {
+    const conversationId = await openDirectConversation(userId);
+    if (conversationId !== null) {
+      await requestCall(conversationId);
     }
+  };
 
-    const { data, error } = await supabase.auth.signUp({
-      email,
-      password,
-      options: {
-        emailRedirectTo: `${window.location.origin}${window.location.pathname}`,
-        data: {
-          full_name: fullName,
-          team_name: teamName
-        }
-      }
+  const mentionMember = (fullName: string) => {
+    const separator = messageDraft && !messageDraft.endsWith(" ") ? " " : "";
+    const next = `${messageDraft}${separator}@${fullName} `;
+    setMessageDraft(next);
+    setMentionQuery(null);
+    window.requestAnimationFrame(() => {
+      composerInputRef.current?.focus();
+      composerInputRef.current?.setSelectionRange(next.length, next.length);
     });
+  };
 
+  // Also used after an edit, so it replaces whatever the message mentioned before.
+  const saveMentions = async (messageId: number, content: string, edited = false) => {
+    if (!currentUser || activeConversationId === null) return;
+    const userIds = mentionedUserIds(content, roomMembers, currentUser.id);
+    if (userIds.length === 0 && !edited) return;
+
+    const conversationId = activeConversationId;
+    const replaceFor = (ids: string[]) =>
+      setMentions((current) => [
+        ...current.filter((row) => row.message_id !== messageId),
+        ...ids.map((userId) => ({
+          message_id: messageId,
+          conversation_id: conversationId,
+          mentioned_user_id: userId
+        }))
+      ]);
+    replaceFor(userIds);
+    const { data, error } = await supabase.rpc("set_message_mentions", {
+      p_message_id: messageId,
+      p_user_ids: userIds
+    });
     if (error) {
-      setAuthError(error.message);
-      setAuthLoading(false);
+      setChatError(error.message);
       return;
     }
+    replaceFor((data ?? []) as string[]);
+  };
 
-    if (!data.session) {
-      setAuthNotice("Account created. Check your email to confirm, then sign in.");
-      setAuthMode("signin");
+  const updatePendingUpload = (localId: string, patch: Partial<PendingUpload>) => {
+    setPendingUploads((current) =>
+      current.map((upload) => (upload.localId === localId ? { ...upload, ...patch } : upload))
+    );
+  };
+
+  const queueAttachments = (files: File[]) => {
+    if (!currentUser || activeConversationId === null || files.length === 0) return;
+
+    const room = maxAttachmentsPerMessage - pendingUploads.length;
+    const problems: string[] = [];
+    if (files.length > room) {
+      problems.push(`You can attach up to ${maxAttachmentsPerMessage} files per message.`);
     }
+    const accepted = files.slice(0, Math.max(room, 0)).filter((file) => {
+      const problem = validateAttachment(file);
+      if (problem) problems.push(problem);
+      return !problem;
+    });
+    setChatError(problems.length > 0 ? problems.join(" ") : null);
+
+    accepted.forEach((file) => {
+      const upload: PendingUpload = {
+        localId: crypto.randomUUID(),
+        file,
+        path: buildAttachmentPath(activeConversationId, currentUser.id, file.name),
+        progress: 0,
+        status: "uploading",
+        error: null,
+        previewUrl: isImageMimeType(file.type) ? URL.createObjectURL(file) : null,
+        width: null,
+        height: null
+      };
+      setPendingUploads((current) => [...current, upload]);
 
-    setAuthLoading(false);
+      void readImageSize(file).then((size) => {
+        if (size) updatePendingUpload(upload.localId, size);
+      });
+      uploadAttachment(upload.path, file, (progress) =>
+        updatePendingUpload(upload.localId, { progress })
+      )
+        .then(() => updatePendingUpload(upload.localId, { status: "uploaded" }))
+        .catch((error: unknown) =>
+          updatePendingUpload(upload.localId, {
+            status: "error",
+            error: error instanceof Error ? error.message : "Upload failed."
+          })
+        );
+    });
   };
 
-  const createConversation = async () => {
-    if (!currentUser || creatingConversation) return;
+  const removePendingUpload = (localId: string) => {
+    const upload = pendingUploads.find((item) => item.localId === localId);
+    if (!upload) return;
+    if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+    if (upload.status === "uploaded") {
+      void supabase.storage.from(attachmentBucket).remove([upload.path]);
+    }
+    setPendingUploads((current) => current.filter((item) => item.localId !== localId));
+  };
 
-    const name = window.prompt("Conversation name");
-    if (!name || !name.trim()) return;
-    const description =
-      window.prompt("Short description", "Team discussion") || "Team discussion";
+  const handleComposerDrop = (event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+    queueAttachments(Array.from(event.dataTransfer.files));
+  };
 
-    setCreatingConversation(true);
-    setChatError(null);
-    const { data, error } = await supabase.rpc("create_conversation_room", {
-      p_name: name.trim(),
-      p_description: description.trim()
-    });
+  const handleComposerPaste = (event: ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(event.clipboardData.files);
+    if (files.length === 0) return;
+    event.preventDefault();
+    queueAttachments(files);
+  };
 
+  const downloadAttachment = async (attachment: AttachmentRow) => {
+    const { data, error } = await supabase.storage
+      .from(attachmentBucket)
+      .createSignedUrl(attachment.storage_path, 60, { download: attachment.file_name });
     if (error) {
       setChatError(error.message);
-      setCreatingConversation(false);
       return;
     }
-
-    await loadConversations();
-    const createdConversationId = Number(data);
-    if (Number.isFinite(createdConversationId)) {
-      setActiveConversationId(createdConversationId);
-    }
-    setCreatingConversation(false);
+    const link = document.createElement("a");
+    link.href = data.signedUrl;
+    link.rel = "noopener";
+    link.click();
   };
 
-  const createInviteLink = async () => {
-    if (!currentUser || activeConversationId === null) {
+  const sendMessage = async () => {
+    const trimmed = messageDraft.trim();
+    const sentUploads = readyUploads;
+    if (
+      (!trimmed && sentUploads.length === 0) ||
+      uploadsInFlight ||
+      !currentUser ||
+      activeConversationId === null ||
+      composerBusy
+    ) {
       return;
     }
-    setInviteFeedback(null);
+    // Sending would quietly drop these files, so make the sender deal with them first.
+    if (failedUploads.length > 0) {
+      setChatError(
+        `${failedUploads.map((upload) => upload.file.name).join(", ")} failed to upload. Remove ${
+          failedUploads.length === 1 ? "it" : "them"
+        } or attach again before sending.`
+      );
+      return;
+    }
+    const preview = trimmed || `📎 ${sentUploads.map((upload) => upload.file.name).join(", ")}`;
 
-    const { data, error } = await supabase.rpc("create_room_invite", {
-      p_conversation_id: activeConversationId,
-      p_max_uses: 1,
-      p_expires_in_minutes: 60 * 24 * 7
-    });
+    const optimisticId = -Date.now();
+    const optimisticIsoTime = new Date().toISOString();
+
+    setMessageDraft("");
+    setMentionQuery(null);
+    setPendingUploads([]);
+    broadcastTyping(false);
+    stickToBottomRef.current = true;
+    setMessages((current) => [
+      ...current,
+      {
+        id: optimisticId,
+        sender: "me",
+        senderName: "You",
+        content: trimmed,
+        timestamp: formatClock(optimisticIsoTime),
+        createdAt: optimisticIsoTime,
+        editedAt: null,
+        deletedAt: null,
+        parentMessageId: null,
+        alsoSentToChannel: false,
+        replyCount: 0,
+        lastReplyAt: null,
+        lastReplySenderId: null
+      }
+    ]);
+    applyConversationPreview(activeConversationId, preview, optimisticIsoTime);
+
+    setComposerBusy(true);
+    setChatError(null);
+
+    const { data, error } = await supabase
+      .rpc("send_message", {
+        p_conversation_id: activeConversationId,
+        p_content: trimmed,
+        p_attachments: sentUploads.map((upload) => ({
+          storage_path: upload.path,
+          file_name: upload.file.name.slice(0, 255),
+          mime_type: upload.file.type,
+          size_bytes: upload.file.size,
+          width: upload.width,
+          height: upload.height
+        }))
+      })
+      .single<{ id: number; created_at: string }>();
 
     if (error) {
-      setInviteFeedback(`Could not create invite: ${error.message}`);
+      setChatError(error.message);
+      setMessages((current) =>
+        current.filter((message) => message.id !== optimisticId)
+      );
+      setPendingUploads((current) => [...sentUploads, ...current]);
+      setComposerBusy(false);
       return;
     }
 
-    const token = String(data ?? "");
-    if (!token) {
-      setInviteFeedback("Invite token generation failed.");
-      return;
+    const insertedId = Number(data.id);
+    const createdAt = String(data.created_at);
+    setMessages((current) =>
+      current.map((message) =>
+        message.id === optimisticId
+          ? {
+              ...message,
+              id: Number.isFinite(insertedId) ? insertedId : optimisticId,
+              timestamp: formatClock(createdAt),
+              createdAt
+            }
+          : message
+      )
+    );
+    applyConversationPreview(activeConversationId, preview, createdAt);
+    void markConversationRead(activeConversationId);
+    if (trimmed && Number.isFinite(insertedId)) {
+      void saveMentions(insertedId, trimmed);
     }
 
-    const inviteUrl = `${window.location.origin}${window.location.pathname}?invite=${token}`;
-    try {
-      await navigator.clipboard.writeText(inviteUrl);
-      setInviteFeedback("Invite link copied. Share it with the person you want to invite.");
-    } catch {
-      window.prompt("Copy this invite link", inviteUrl);
-      setInviteFeedback("Invite link generated.");
+    if (sentUploads.length > 0 && Number.isFinite(insertedId)) {
+      const { data: attachmentRows, error: attachmentError } = await supabase
+        .from("message_attachments")
+        .select(attachmentColumns)
+        .eq("message_id", insertedId);
+
+      if (attachmentError) {
+        setChatError(attachmentError.message);
+      } else {
+        const inserted = (attachmentRows ?? []) as AttachmentRow[];
+        setAttachments((current) => [
+          ...current,
+          ...inserted.filter((row) => !current.some((item) => item.id === row.id))
+        ]);
+      }
+      sentUploads.forEach((upload) => {
+        if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+      });
     }
+    setComposerBusy(false);
   };
 
-  const requestCall = async () => {
-    if (!currentUser || activeConversationId === null) return;
-    if (callStatus === "connecting" || callStatus === "in-call" || callStatus === "requesting") {
-      return;
-    }
-
-    try {
-      assertMediaContext();
-    } catch (error) {
-      setCallStatus("error");
-      setCallError(
-        error instanceof Error ? error.message : "This device cannot start calls here."
-      );
+  const sendThreadReply = async () => {
+    const trimmed = threadDraft.trim();
+    const parent = threadParent;
+    if (
+      !trimmed ||
+      !currentUser ||
+      !parent ||
+      activeConversationId === null ||
+      threadBusy
+    ) {
       return;
     }
 
-    setCallError(null);
+    setThreadBusy(true);
+    setChatError(null);
     const { data, error } = await supabase
-      .from("call_requests")
+      .from("messages")
       .insert({
         conversation_id: activeConversationId,
-        requester_id: currentUser.id,
-        status: "pending"
+        sender_id: currentUser.id,
+        content: trimmed,
+        parent_message_id: parent.id,
+        also_sent_to_channel: threadAlsoSend
       })
-      .select(
-        "id, conversation_id, requester_id, accepted_by, status, created_at, updated_at"
-      )
+      .select(messageColumns)
       .single();
 
     if (error) {
-      setCallStatus("error");
-      setCallError(error.message);
+      setChatError(error.message);
+      setThreadBusy(false);
       return;
     }
 
-    const pending = normalizeCall(data as Partial<CallRequestRow>);
-    if (!pending) {
-      setCallStatus("error");
-      setCallError("Failed to create call request.");
-      return;
+    const reply = toChatMessage(data as MessageRow, currentUser.id);
+    void saveMentions(reply.id, trimmed);
+    setThreadDraft("");
+    setThreadReplies((current) =>
+      current.some((message) => message.id === reply.id) ? current : [...current, reply]
+    );
+    setMessages((current) => {
+      const bumped = current.map((message) =>
+        message.id === parent.id
+          ? {
+              ...message,
+              replyCount: message.replyCount + 1,
+              lastReplyAt: (data as MessageRow).created_at,
+              lastReplySenderId: currentUser.id
+            }
+          : message
+      );
+      if (!reply.alsoSentToChannel || bumped.some((message) => message.id === reply.id)) {
+        return bumped;
+      }
+      return [...bumped, reply];
+    });
+    if (reply.alsoSentToChannel) {
+      applyConversationPreview(
+        activeConversationId,
+        trimmed,
+        (data as MessageRow).created_at
+      );
     }
+    setThreadBusy(false);
+  };
 
-    setPendingOutgoingCall(pending);
-    setCallStatus("requesting");
+  const jumpToMessage = (
+    result: Pick<
+      MessageSearchRow,
+      "message_id" | "conversation_id" | "parent_message_id" | "also_sent_to_channel"
+    >
+  ) => {
+    const threadOnly = result.parent_message_id !== null && !result.also_sent_to_channel;
+    if (result.conversation_id !== activeConversationId) {
+      // Hold the jump until the other room's first page replaces the current one.
+      setMessagesLoading(true);
+    }
+    setActiveConversationId(result.conversation_id);
+    setHighlightMessageId(threadOnly ? result.parent_message_id : result.message_id);
+    if (!threadOnly) return;
+    if (result.conversation_id === activeConversationId) {
+      setThreadParentId(result.parent_message_id);
+    } else {
+      // Switching rooms resets the thread panel, so hand the thread over to that reset.
+      pendingThreadOpenRef.current = result.parent_message_id;
+    }
   };
 
-  const acceptIncomingCall = async () => {
-    if (!incomingCall || !currentUser) return;
+  const toggleReaction = async (messageId: number, emoji: string) => {
+    if (!currentUser || activeConversationId === null) return;
+    setReactionPickerFor(null);
+
+    const isSame = (item: ReactionRow) =>
+      item.message_id === messageId &&
+      item.user_id === currentUser.id &&
+      item.emoji === emoji;
+    const alreadyReacted = reactions.some(isSame);
+    const row: ReactionRow = {
+      message_id: messageId,
+      conversation_id: activeConversationId,
+      user_id: currentUser.id,
+      emoji
+    };
 
-    const { error } = await supabase
-      .from("call_requests")
-      .update({
-        status: "accepted",
-        accepted_by: currentUser.id,
-        updated_at: new Date().toISOString()
-      })
-      .eq("id", incomingCall.id);
+    setReactions((current) =>
+      alreadyReacted ? current.filter((item) => !isSame(item)) : [...current, row]
+    );
+
+    const { error } = alreadyReacted
+      ? await supabase
+          .from("message_reactions")
+          .delete()
+          .eq("message_id", messageId)
+          .eq("user_id", currentUser.id)
+          .eq("emoji", emoji)
+      : await supabase.from("message_reactions").insert(row);
 
     if (error) {
-      setCallStatus("error");
-      setCallError(error.message);
+      setChatError(error.message);
+      setReactions((current) =>
+        alreadyReacted ? [...current, row] : current.filter((item) => !isSame(item))
+      );
       return;
     }
 
-    const acceptedCall: ActiveCall = {
-      ...incomingCall,
-      status: "accepted",
-      acceptedBy: currentUser.id
-    };
-    setActiveConversationId(acceptedCall.conversationId);
-    setIncomingCall(null);
-    setActiveCall(acceptedCall);
-    setCallStatus("connecting");
-    setCallError(null);
-
-    await sendCallSignal("call-accepted", {
-      callId: acceptedCall.id,
-      conversationId: acceptedCall.conversationId,
-      from: currentUser.id,
-      to: acceptedCall.requesterId
+    void roomChannelRef.current?.send({
+      type: "broadcast",
+      event: "reactions",
+      payload: { conversationId: activeConversationId, messageId } satisfies ReactionSignalPayload
     });
   };
 
-  const rejectIncomingCall = async () => {
-    if (!incomingCall || !currentUser) return;
+  const startEditingMessage = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditDraft(message.content);
+  };
 
-    const { error } = await supabase
-      .from("call_requests")
-      .update({
-        status: "rejected",
-        accepted_by: currentUser.id,
-        updated_at: new Date().toISOString()
-      })
-      .eq("id", incomingCall.id);
+  const cancelEditingMessage = () => {
+    setEditingMessageId(null);
+    setEditDraft("");
+  };
+
+  const saveMessageEdit = async () => {
+    const messageId = editingMessageId;
+    const trimmed = editDraft.trim();
+    if (messageId === null || !trimmed) return;
+
+    const original = messages.find((message) => message.id === messageId);
+    cancelEditingMessage();
+    if (!original || original.content === trimmed) return;
+
+    setChatError(null);
+    const { data, error } = await supabase
+      .from("messages")
+      .update({ content: trimmed })
+      .eq("id", messageId)
+      .select("content, edited_at")
+      .single();
 
     if (error) {
-      setCallStatus("error");
-      setCallError(error.message);
+      setChatError(error.message);
       return;
     }
 
-    setIncomingCall(null);
-    setCallStatus("idle");
+    setMessages((current) =>
+      current.map((message) =>
+        message.id === messageId
+          ? {
+              ...message,
+              content: String(data.content),
+              editedAt: (data.edited_at as string | null) ?? new Date().toISOString()
+            }
+          : message
+      )
+    );
+    setMessageHistory((current) => {
+      if (!current[messageId]) return current;
+      const next = { ...current };
+      delete next[messageId];
+      return next;
+    });
+    void saveMentions(messageId, String(data.content), true);
   };
 
-  const endCall = async () => {
-    if (!currentUser) return;
-
-    const current = activeCall || pendingOutgoingCall || incomingCall;
-    if (!current) return;
-
-    const nextStatus: CallRequestRow["status"] =
-      current.status === "pending" && current.requesterId === currentUser.id
-        ? "cancelled"
-        : "ended";
+  const announceMembershipChange = () => {
+    setMembersVersion((current) => current + 1);
+    void roomChannelRef.current?.send({
+      type: "broadcast",
+      event: "members",
+      payload: { conversationId: activeConversationId }
+    });
+  };
 
-    const { error } = await supabase
-      .from("call_requests")
-      .update({
-        status: nextStatus,
-        updated_at: new Date().toISOString()
-      })
-      .eq("id", current.id);
+  const leaveConversation = async () => {
+    if (activeConversationId === null || !activeConversation) return;
+    const soleOwner =
+      myRole === "owner" &&
+      !roomMembers.some((member) => member.user_id !== currentUser?.id && member.role !== "guest");
+    const warning = soleOwner
+      ? `Leave ${activeConversation.name}? Nobody else can take over as owner.`
+      : myRole === "owner"
+        ? `Leave ${activeConversation.name}? Ownership passes to the longest-standing admin.`
+        : `Leave ${activeConversation.name}?`;
+    if (!window.confirm(warning)) return;
 
+    setChatError(null);
+    const { error } = await supabase.rpc("leave_conversation", {
+      p_conversation_id: activeConversationId
+    });
     if (error) {
-      setCallStatus("error");
-      setCallError(error.message);
+      setChatError(error.message);
       return;
     }
+    void roomChannelRef.current?.send({
+      type: "broadcast",
+      event: "members",
+      payload: { conversationId: activeConversationId }
+    });
+    dropConversation(activeConversationId);
+  };
 
-    const targetId =
-      currentUser.id === current.requesterId ? current.acceptedBy : current.requesterId;
+  const removeMember = async (userId: string, fullName: string, ban: boolean) => {
+    if (activeConversationId === null) return;
+    const prompt = ban
+      ? `Ban ${fullName}? They are removed and cannot rejoin with any invite.`
+      : `Remove ${fullName} from this room?`;
+    if (!window.confirm(prompt)) return;
 
-    if (targetId) {
-      await sendCallSignal("call-ended", {
-        callId: current.id,
-        conversationId: current.conversationId,
-        from: currentUser.id,
-        to: targetId
-      });
+    setChatError(null);
+    const { error } = await supabase.rpc("remove_conversation_member", {
+      p_conversation_id: activeConversationId,
+      p_user_id: userId,
+      p_ban: ban
+    });
+    if (error) {
+      setChatError(error.message);
+      return;
     }
-
-    resetCallMedia();
-    setActiveCall(null);
-    setIncomingCall(null);
-    setPendingOutgoingCall(null);
-    setCallStatus("idle");
+    announceMembershipChange();
   };
 
-  const toggleMic = () => {
-    if (!localStream) return;
-    const nextMuted = !isMicMuted;
-    localStream.getAudioTracks().forEach((track) => {
-      track.enabled = !nextMuted;
+  const changeMemberRole = async (userId: string, role: MemberRole) => {
+    if (activeConversationId === null) return;
+    setChatError(null);
+    const { error } = await supabase.rpc("set_member_role", {
+      p_conversation_id: activeConversationId,
+      p_user_id: userId,
+      p_role: role
     });
-    setIsMicMuted(nextMuted);
+    if (error) {
+      setChatError(error.message);
+      return;
+    }
+    announceMembershipChange();
   };
 
-  const sendMessage = async () => {
-    const trimmed = messageDraft.trim();
-    if (!trimmed || !currentUser || activeConversationId === null || composerBusy) {
+  const transferOwnership = async (userId: string, fullName: string) => {
+    if (activeConversationId === null) return;
+    if (!window.confirm(`Make ${fullName} the owner of this room? You will become an admin.`)) {
       return;
     }
+    setChatError(null);
+    const { error } = await supabase.rpc("transfer_room_ownership", {
+      p_conversation_id: activeConversationId,
+      p_new_owner: userId
+    });
+    if (error) {
+      setChatError(error.message);
+      return;
+    }
+    announceMembershipChange();
+  };
 
-    const optimisticId = -Date.now();
-    const optimisticIsoTime = new Date().toISOString();
-
-    setMessageDraft("");
-    setMessages((current) => [
-      ...current,
-      {
-        id: optimisticId,
-        sender: "me",
-        senderName: "You",
-        content: trimmed,
-        timestamp: formatClock(optimisticIsoTime)
-      }
-    ]);
-    applyConversationPreview(activeConversationId, trimmed, optimisticIsoTime);
+  const deleteMessage = async (messageId: number) => {
+    if (!window.confirm("Delete this message for everyone?")) return;
 
-    setComposerBusy(true);
     setChatError(null);
-
     const { data, error } = await supabase
       .from("messages")
-      .insert({
-        conversation_id: activeConversationId,
-        sender_id: currentUser.id,
-        content: trimmed
-      })
-      .select("id, created_at, content, conversation_id")
+      .update({ deleted_at: new Date().toISOString() })
+      .eq("id", messageId)
+      .select("deleted_at")
       .single();
 
     if (error) {
       setChatError(error.message);
-      setMessages((current) =>
-        current.filter((message) => message.id !== optimisticId)
-      );
-      setComposerBusy(false);
       return;
     }
 
-    const insertedId = Number(data.id);
-    const createdAt = String(data.created_at);
     setMessages((current) =>
       current.map((message) =>
-        message.id === optimisticId
-          ? {
-              ...message,
-              id: Number.isFinite(insertedId) ? insertedId : optimisticId,
-              timestamp: formatClock(createdAt)
-            }
+        message.id === messageId
+          ? { ...message, content: "", deletedAt: String(data.deleted_at) }
           : message
       )
     );
-    applyConversationPreview(activeConversationId, trimmed, createdAt);
-    setComposerBusy(false);
+
+    // Storage lets uploaders and room admins remove a message's files.
+    const paths = (attachmentsByMessage[messageId] ?? [])
+      .filter((row) => row.uploader_id === currentUser?.id || canModerate)
+      .map((row) => row.storage_path);
+    setAttachments((current) => current.filter((row) => row.message_id !== messageId));
+    if (paths.length > 0) {
+      void supabase.storage.from(attachmentBucket).remove(paths);
+    }
+  };
+
+  const toggleMessageHistory = async (messageId: number) => {
+    if (messageHistory[messageId]) {
+      setMessageHistory((current) => {
+        const next = { ...current };
+        delete next[messageId];
+        return next;
+      });
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("message_edits")
+      .select("id, previous_content, edited_at")
+      .eq("message_id", messageId)
+      .order("edited_at", { ascending: false });
+
+    if (error) {
+      setChatError(error.message);
+      return;
+    }
+
+    setMessageHistory((current) => ({
+      ...current,
+      [messageId]: (data ?? []) as MessageEditRow[]
+    }));
   };
 
   const logout = async () => {
@@ -1500,13 +5193,28 @@ function App() {
     setPassword("");
   };
 
-  const callForActiveConversation =
-    (incomingCall && incomingCall.conversationId === activeConversationId && incomingCall) ||
-    (pendingOutgoingCall &&
-      pendingOutgoingCall.conversationId === activeConversationId &&
-      pendingOutgoingCall) ||
-    (activeCall && activeCall.conversationId === activeConversationId && activeCall) ||
-    null;
+  const ownRoomCall = roomCall && roomCall.id !== incomingCall?.id ? roomCall : null;
+  const joinableRoomCall =
+    incomingCall && incomingCall.conversationId === activeConversationId ? incomingCall : null;
+  const callFull = callParticipants.length >= maxCallParticipants;
+  // Streams can arrive before the participant list catches up, so tiles cover both.
+  const remoteTileIds = [
+    ...new Set([
+      ...callParticipants.map((participant) => participant.user_id),
+      ...Object.keys(remoteStreams)
+    ])
+  ]
+    .filter((userId) => userId !== currentUser?.id)
+    .sort((left, right) => Number(right === screenSharerId) - Number(left === screenSharerId));
+  const callMemberName = (userId: string) =>
+    roomMembers.find((member) => member.user_id === userId)?.full_name?.trim() || "Participant";
+  const deviceChoices = (kind: MediaDeviceKind, fallbackName: string) =>
+    mediaDevices
+      .filter((device) => device.kind === kind)
+      .map((device, index) => ({
+        id: device.deviceId,
+        label: device.label || `${fallbackName} ${index + 1}`
+      }));
 
   if (!authed) {
     return (
@@ -1624,6 +5332,41 @@ function App() {
     );
   }
 
+  const renderConversationItem = (conversation: ConversationCard) => (
+    <button
+      className={`conversation-item ${
+        conversation.id === activeConversationId ? "active" : ""
+      }`}
+      key={conversation.id}
+      onClick={() => setActiveConversationId(conversation.id)}
+      type="button"
+    >
+      <div className="avatar">{conversation.avatar}</div>
+      <div className="conversation-copy">
+        <div className="row">
+          <strong>{conversation.name}</strong>
+          {(unreadByConversation[conversation.id] ?? 0) > 0 ? (
+            <span>{unreadByConversation[conversation.id] ?? 0}</span>
+          ) : null}
+        </div>
+        <p>{conversation.preview}</p>
+        <small>
+          <i
+            className={`status-dot ${
+              presenceSummaryByConversation[conversation.id]?.status ?? "offline"
+            }`}
+          />
+          {conversation.role}
+          {(presenceSummaryByConversation[conversation.id]?.onlineCount ?? 0) > 0 ? (
+            <em className="presence-count">
+              {presenceSummaryByConversation[conversation.id]?.onlineCount} online
+            </em>
+          ) : null}
+        </small>
+      </div>
+    </button>
+  );
+
   return (
     <main className="chat-layout">
       <div className="grid-overlay" />
@@ -1631,54 +5374,218 @@ function App() {
       <aside className="sidebar glass-card">
         <header className="sidebar-header">
           <div>
-            <p className="chip small">LUMEN</p>
+            <div className="workspace-switcher">
+              <p className="chip small">LUMEN</p>
+              <select
+                aria-label="Workspace"
+                onChange={(event) => {
+                  if (event.target.value === "new") {
+                    void createWorkspace();
+                    return;
+                  }
+                  if (event.target.value === "invite") {
+                    void inviteToWorkspace();
+                    return;
+                  }
+                  if (event.target.value === "leave") {
+                    void leaveWorkspace();
+                    return;
+                  }
+                  switchWorkspace(Number(event.target.value));
+                }}
+                value={activeWorkspaceId ?? ""}
+              >
+                {workspaces.map((workspace) => (
+                  <option key={workspace.id} value={workspace.id}>
+                    {workspace.name}
+                  </option>
+                ))}
+                <option value="new">+ New workspace</option>
+                {activeWorkspace?.role === "owner" ? (
+                  <option value="invite">Copy invite link…</option>
+                ) : null}
+                {workspaces.length > 1 ? <option value="leave">Leave workspace…</option> : null}
+              </select>
+            </div>
             <h2>Messages</h2>
+            {activeWorkspace ? (
+              <small className="workspace-meta">
+                {activeWorkspace.member_count}{" "}
+                {activeWorkspace.member_count === 1 ? "member" : "members"}
+              </small>
+            ) : null}
           </div>
-          <button disabled={creatingConversation} onClick={createConversation} type="button">
+          <button
+            disabled={creatingConversation || activeWorkspaceId === null}
+            onClick={createConversation}
+            type="button"
+          >
             {creatingConversation ? "..." : "New"}
           </button>
         </header>
 
         <label className="search-input">
           <span>Search</span>
-          <input placeholder="Connected to backend storage" readOnly type="text" />
+          <input
+            onChange={(event) => setSearchQuery(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Escape") {
+                setSearchQuery("");
+              }
+            }}
+            placeholder="Rooms and messages"
+            type="search"
+            value={searchQuery}
+          />
         </label>
 
+        <div className="sidebar-tabs">
+          <button
+            className={sidebarView === "rooms" ? "active" : ""}
+            onClick={() => setSidebarView("rooms")}
+            type="button"
+          >
+            Rooms
+          </button>
+          <button
+            className={sidebarView === "mentions" ? "active" : ""}
+            onClick={() => setSidebarView("mentions")}
+            type="button"
+          >
+            Mentions
+            {mentionInbox.length > 0 ? (
+              <span>{mentionInbox.length}</span>
+            ) : null}
+          </button>
+          <button
+            className={sidebarView === "directory" ? "active" : ""}
+            onClick={() => setSidebarView("directory")}
+            type="button"
+          >
+            Browse
+          </button>
+        </div>
+
         <div className="conversation-list">
-          {conversations.map((conversation) => (
-            <button
-              className={`conversation-item ${
-                conversation.id === activeConversationId ? "active" : ""
-              }`}
-              key={conversation.id}
-              onClick={() => setActiveConversationId(conversation.id)}
-              type="button"
-            >
-              <div className="avatar">{conversation.avatar}</div>
-              <div className="conversation-copy">
-                <div className="row">
-                  <strong>{conversation.name}</strong>
-                  {(unreadByConversation[conversation.id] ?? 0) > 0 ? (
-                    <span>{unreadByConversation[conversation.id] ?? 0}</span>
+          {sidebarView === "directory" ? (
+            <section className="search-results">
+              {publicRoomsLoading && publicRooms.length === 0 ? (
+                <p className="state-note">Loading rooms...</p>
+              ) : null}
+              {!publicRoomsLoading && publicRooms.length === 0 ? (
+                <p className="state-note">
+                  {searchQuery.trim() ? "No public rooms match." : "No public rooms yet."}
+                </p>
+              ) : null}
+              {publicRooms.map((room) => (
+                <article className="search-result directory-room" key={room.id}>
+                  <div className="row">
+                    <strong>{room.name}</strong>
+                    <time>
+                      {room.member_count} {room.member_count === 1 ? "member" : "members"}
+                    </time>
+                  </div>
+                  {room.description ? <p>{room.description}</p> : null}
+                  <button
+                    disabled={joiningRoomId !== null}
+                    onClick={() => void joinPublicRoom(room)}
+                    type="button"
+                  >
+                    {room.is_member ? "Open" : joiningRoomId === room.id ? "Joining..." : "Join"}
+                  </button>
+                </article>
+              ))}
+            </section>
+          ) : sidebarView === "mentions" ? (
+            <section className="search-results">
+              {mentionInbox.length === 0 ? (
+                <p className="state-note">No unread mentions.</p>
+              ) : null}
+              {mentionInbox.map((mention) => (
+                <button
+                  className="search-result"
+                  key={mention.message_id}
+                  onClick={() => jumpToMessage(mention)}
+                  type="button"
+                >
+                  <div className="row">
+                    <strong>
+                      {conversationNameFor(mention.conversation_id, mention.conversation_name)}
+                    </strong>
+                    <time>{formatLastSeen(mention.created_at)}</time>
+                  </div>
+                  <p>
+                    <span>{mention.sender_name}: </span>
+                    {mention.content}
+                  </p>
+                </button>
+              ))}
+            </section>
+          ) : (
+            <>
+              {visibleRooms.map(renderConversationItem)}
+              {visibleDirects.length > 0 ? (
+                <>
+                  <h5 className="conversation-group">Direct messages</h5>
+                  {visibleDirects.map(renderConversationItem)}
+                </>
+              ) : null}
+              {visibleArchived.length > 0 ? (
+                <>
+                  <button
+                    className="conversation-group"
+                    onClick={() => setShowArchived((current) => !current)}
+                    type="button"
+                  >
+                    {showArchived ? "Hide" : "Show"} archived ({visibleArchived.length})
+                  </button>
+                  {showArchived ? visibleArchived.map(renderConversationItem) : null}
+                </>
+              ) : null}
+
+              {searchQuery.trim() && visibleConversations.length === 0 ? (
+                <p className="state-note">No rooms match.</p>
+              ) : null}
+
+              {searchQuery.trim().length >= 2 ? (
+                <section className="search-results">
+                  <h5>Messages</h5>
+                  {searching ? <p className="state-note">Searching...</p> : null}
+                  {!searching && searchResults.length === 0 ? (
+                    <p className="state-note">No messages match.</p>
                   ) : null}
-                </div>
-                <p>{conversation.preview}</p>
-                <small>
-                  <i className={`status-dot ${conversation.status}`} />
-                  {conversation.role}
-                </small>
-              </div>
-            </button>
-          ))}
-
-          {!chatLoading && conversations.length === 0 ? (
-            <article className="empty-note">
-              <p>No conversations yet.</p>
-              <button onClick={createConversation} type="button">
-                Create your first room
-              </button>
-            </article>
-          ) : null}
+                  {searchResults.map((result) => (
+                    <button
+                      className="search-result"
+                      key={result.message_id}
+                      onClick={() => jumpToMessage(result)}
+                      type="button"
+                    >
+                      <div className="row">
+                        <strong>
+                      {conversationNameFor(result.conversation_id, result.conversation_name)}
+                    </strong>
+                        <time>{formatLastSeen(result.created_at)}</time>
+                      </div>
+                      <p>
+                        <span>{result.sender_name}: </span>
+                        {renderSnippet(result.snippet)}
+                      </p>
+                    </button>
+                  ))}
+                </section>
+              ) : null}
+
+              {!chatLoading && workspaceConversations.length === 0 ? (
+                <article className="empty-note">
+                  <p>No conversations yet.</p>
+                  <button onClick={createConversation} type="button">
+                    Create your first room
+                  </button>
+                </article>
+              ) : null}
+            </>
+          )}
         </div>
       </aside>
 
@@ -1687,25 +5594,50 @@ function App() {
           <div>
             <h3>{activeConversation?.name ?? "No conversation selected"}</h3>
             <p>{activeConversation?.role ?? "Create a room to begin chatting"}</p>
+            {typingLabel ? <p className="typing-indicator">{typingLabel}</p> : null}
           </div>
           <div className="thread-actions">
             <button onClick={loadConversations} type="button">
               Refresh
             </button>
             <button
-              disabled={activeConversationId === null}
-              onClick={createInviteLink}
+              className={invitePanelOpen ? "active" : ""}
+              disabled={activeConversationId === null || !canInvite}
+              onClick={() => setInvitePanelOpen((current) => !current)}
+              title={canInvite ? undefined : "Only room admins can invite"}
+              type="button"
+            >
+              Invites
+            </button>
+            <button
+              className={callSetupOpen ? "active" : ""}
+              onClick={() => setCallSetupOpen((current) => !current)}
               type="button"
             >
-              Invite
+              Devices
             </button>
             <button
-              disabled={activeConversationId === null || callStatus === "connecting"}
-              onClick={callForActiveConversation ? endCall : requestCall}
+              disabled={
+                activeConversationId === null ||
+                callStatus === "connecting" ||
+                (!ownRoomCall && (joinableRoomCall ? !canJoinCall || callFull : !canStartCall))
+              }
+              onClick={ownRoomCall ? endCall : () => void requestCall()}
               type="button"
             >
-              {callForActiveConversation ? "End Call" : "Request Call"}
+              {ownRoomCall
+                ? ownRoomCall.id === activeCall?.id
+                  ? "Leave Call"
+                  : "Cancel Call"
+                : joinableRoomCall
+                  ? "Join Call"
+                  : "Request Call"}
             </button>
+            {activeConversation?.kind === "room" && canModerate ? (
+              <button onClick={() => void openRoomSettings()} type="button">
+                Settings
+              </button>
+            ) : null}
             <button onClick={createConversation} type="button">
               New Room
             </button>
@@ -1719,15 +5651,24 @@ function App() {
         {callError ? <p className="feedback error">{callError}</p> : null}
         {inviteFeedback ? <p className="feedback success">{inviteFeedback}</p> : null}
 
-        {incomingCall && incomingCall.conversationId === activeConversationId ? (
+        {joinableRoomCall ? (
           <section className="call-banner">
-            <p>Incoming call request for this room</p>
+            <p>
+              {joinableRoomCall.status === "pending"
+                ? "Incoming call request for this room"
+                : `Call in progress · ${callParticipants.length} of ${maxCallParticipants} in the call`}
+            </p>
             <div>
-              <button onClick={acceptIncomingCall} type="button">
-                Pick up
+              <button
+                disabled={!canJoinCall || callFull}
+                onClick={() => void joinCall(joinableRoomCall)}
+                title={callFull ? "This call is full" : undefined}
+                type="button"
+              >
+                {joinableRoomCall.status === "pending" ? "Pick up" : "Join"}
               </button>
               <button onClick={rejectIncomingCall} type="button">
-                Decline
+                {joinableRoomCall.status === "pending" ? "Decline" : "Dismiss"}
               </button>
             </div>
           </section>
@@ -1745,71 +5686,652 @@ function App() {
           </section>
         ) : null}
 
+        {callSetupOpen ? (
+          <section
+            className={
+              !activeCall && !callMediaPreferences.audioOnly ? "call-setup with-preview" : "call-setup"
+            }
+          >
+            {!activeCall && !callMediaPreferences.audioOnly ? (
+              <video
+                autoPlay
+                className="video-card"
+                muted
+                playsInline
+                ref={attachStream(previewStream)}
+              />
+            ) : null}
+            <div className="call-setup-fields">
+              <label>
+                <span>Microphone</span>
+                <select
+                  onChange={(event) => selectCallDevice("audio", event.target.value)}
+                  value={callMediaPreferences.micId}
+                >
+                  <option value="">System default</option>
+                  {deviceChoices("audioinput", "Microphone").map((device) => (
+                    <option key={device.id} value={device.id}>
+                      {device.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span>Camera</span>
+                <select
+                  disabled={callMediaPreferences.audioOnly && !activeCall}
+                  onChange={(event) => selectCallDevice("video", event.target.value)}
+                  value={callMediaPreferences.cameraId}
+                >
+                  <option value="">System default</option>
+                  {deviceChoices("videoinput", "Camera").map((device) => (
+                    <option key={device.id} value={device.id}>
+                      {device.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {speakerSelectionSupported ? (
+                <label>
+                  <span>Speaker</span>
+                  <select
+                    onChange={(event) =>
+                      updateCallMediaPreferences({ speakerId: event.target.value })
+                    }
+                    value={callMediaPreferences.speakerId}
+                  >
+                    <option value="">System default</option>
+                    {deviceChoices("audiooutput", "Speaker").map((device) => (
+                      <option key={device.id} value={device.id}>
+                        {device.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+              <label className="call-setup-toggle">
+                <input
+                  checked={callMediaPreferences.audioOnly}
+                  onChange={(event) =>
+                    updateCallMediaPreferences({ audioOnly: event.target.checked })
+                  }
+                  type="checkbox"
+                />
+                <span>Join calls with audio only</span>
+              </label>
+            </div>
+          </section>
+        ) : null}
+
         {activeCall && activeCall.conversationId === activeConversationId ? (
           <section className="call-stage">
             <div className="call-head">
               <strong>
-                {callStatus === "in-call" ? "Call connected" : "Connecting call..."}
+                {callStatus === "in-call"
+                  ? `Call connected · ${remoteTileIds.length + 1} people`
+                  : "Connecting call..."}
               </strong>
               <div>
                 <button onClick={toggleMic} type="button">
                   {isMicMuted ? "Unmute" : "Mute"}
                 </button>
+                <button onClick={() => void toggleCamera()} type="button">
+                  {isCameraOff ? "Camera on" : "Camera off"}
+                </button>
+                <button
+                  disabled={!screenStream && Boolean(screenSharerId)}
+                  onClick={() => void (screenStream ? stopScreenShare() : startScreenShare())}
+                  title={
+                    !screenStream && screenSharerId
+                      ? `${callMemberName(screenSharerId)} is sharing`
+                      : undefined
+                  }
+                  type="button"
+                >
+                  {screenStream ? "Stop sharing" : "Share screen"}
+                </button>
                 <button onClick={endCall} type="button">
-                  End
+                  Leave
                 </button>
               </div>
             </div>
-            <div className="call-videos">
-              <video
-                autoPlay
-                className="video-card"
-                muted
-                playsInline
-                ref={localVideoRef}
-              />
-              <video autoPlay className="video-card" playsInline ref={remoteVideoRef} />
+            {reconnectingUserIds.length > 0 ? (
+              <p className="call-reconnecting" role="status">
+                Reconnecting… {reconnectingUserIds.map(callMemberName).join(", ")}
+              </p>
+            ) : null}
+            <div
+              className={`call-videos tiles-${Math.min(remoteTileIds.length + 1, maxCallParticipants)}`}
+            >
+              <figure className="video-tile">
+                <video
+                  autoPlay
+                  className="video-card"
+                  muted
+                  playsInline
+                  ref={localVideoRef}
+                />
+                <figcaption>
+                  {screenStream ? "You · sharing screen" : isCameraOff ? "You · camera off" : "You"}
+                </figcaption>
+              </figure>
+              {remoteTileIds.map((userId) => (
+                <figure
+                  className={userId === screenSharerId ? "video-tile primary" : "video-tile"}
+                  key={userId}
+                >
+                  <video
+                    autoPlay
+                    className="video-card"
+                    playsInline
+                    ref={attachStream(
+                      remoteStreams[userId] ?? null,
+                      callMediaPreferences.speakerId
+                    )}
+                  />
+                  <figcaption>
+                    {callMemberName(userId)}
+                    {userId === screenSharerId ? " · sharing screen" : ""}
+                    {reconnectingUserIds.includes(userId) ? " · reconnecting" : ""}
+                    {remoteStreams[userId] ? "" : " · connecting"}
+                  </figcaption>
+                </figure>
+              ))}
             </div>
           </section>
         ) : null}
 
-        <div className="message-stream">
-          {messagesLoading ? <p className="state-note">Loading messages...</p> : null}
-          {!messagesLoading && messages.length === 0 ? (
-            <p className="state-note">No messages yet. Send the first one.</p>
+        <div className="chat-body">
+          <div
+            className="message-stream"
+            onScroll={handleMessageStreamScroll}
+            ref={messageStreamRef}
+          >
+            {loadingOlderMessages ? (
+              <p className="state-note">Loading earlier messages...</p>
+            ) : null}
+            {!messagesLoading && !hasOlderMessages && messages.length > 0 ? (
+              <p className="day-separator">Start of conversation</p>
+            ) : null}
+            {messagesLoading ? <p className="state-note">Loading messages...</p> : null}
+            {!messagesLoading && messages.length === 0 ? (
+              <p className="state-note">No messages yet. Send the first one.</p>
+            ) : null}
+            {messages.map((message) => (
+              <Fragment key={message.id}>
+                {message.id === firstUnreadMessageId ? (
+                  <p className="unread-divider">
+                    <span>New since {formatLastSeen(unreadSince ?? message.createdAt)}</span>
+                  </p>
+                ) : null}
+                <article
+                  className={`message ${message.sender === "me" ? "mine" : "theirs"} ${
+                    message.id === highlightMessageId ? "highlighted" : ""
+                  }`}
+                  id={`message-${message.id}`}
+                  key={message.id}
+                >
+                  <span className="message-sender">{message.senderName}</span>
+                  {message.parentMessageId !== null ? (
+                    <button
+                      className="thread-origin"
+                      onClick={() => setThreadParentId(message.parentMessageId)}
+                      type="button"
+                    >
+                      Replied in thread
+                    </button>
+                  ) : null}
+                  {message.deletedAt ? (
+                    <p className="message-tombstone">Message deleted</p>
+                  ) : editingMessageId === message.id ? (
+                    <div className="message-edit">
+                      <input
+                        autoFocus
+                        maxLength={4000}
+                        onChange={(event) => setEditDraft(event.target.value)}
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter") {
+                            event.preventDefault();
+                            void saveMessageEdit();
+                          }
+                          if (event.key === "Escape") {
+                            cancelEditingMessage();
+                          }
+                        }}
+                        type="text"
+                        value={editDraft}
+                      />
+                      <div>
+                        <button onClick={saveMessageEdit} type="button">
+                          Save
+                        </button>
+                        <button onClick={cancelEditingMessage} type="button">
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : message.content ? (
+                    <p>
+                      {renderMentions(
+                        message.content,
+                        mentionNamesByMessage[message.id] ?? [],
+                        selfMentionName
+                      )}
+                    </p>
+                  ) : null}
+                  {!message.deletedAt && (attachmentsByMessage[message.id]?.length ?? 0) > 0 ? (
+                    <div className="message-attachments">
+                      {attachmentsByMessage[message.id].map((attachment) =>
+                        isImageMimeType(attachment.mime_type) ? (
+                          <button
+                            className="attachment-thumb"
+                            key={attachment.id}
+                            onClick={() => setLightboxAttachment(attachment)}
+                            title={attachment.file_name}
+                            type="button"
+                          >
+                            {signedUrls[attachment.storage_path] ? (
+                              <img
+                                alt={attachment.file_name}
+                                height={attachment.height ?? undefined}
+                                loading="lazy"
+                                src={signedUrls[attachment.storage_path].url}
+                                width={attachment.width ?? undefined}
+                              />
+                            ) : (
+                              <span>Loading image...</span>
+                            )}
+                          </button>
+                        ) : (
+                          <button
+                            className="attachment-file"
+                            key={attachment.id}
+                            onClick={() => void downloadAttachment(attachment)}
+                            type="button"
+                          >
+                            <strong>{attachment.file_name}</strong>
+                            <small>{formatBytes(attachment.size_bytes)} · Download</small>
+                          </button>
+                        )
+                      )}
+                    </div>
+                  ) : null}
+                  <time>
+                    {message.timestamp}
+                    {message.editedAt && !message.deletedAt ? (
+                      <button
+                        className="message-edited"
+                        onClick={() => void toggleMessageHistory(message.id)}
+                        title={`Edited ${formatLastSeen(message.editedAt)}`}
+                        type="button"
+                      >
+                        edited
+                      </button>
+                    ) : null}
+                    {message.sender === "me" && !message.deletedAt ? (
+                      <span className="message-delivery">
+                        {message.id < 0
+                          ? "Sending"
+                          : latestReadByOthers &&
+                              (new Date(message.createdAt).getTime() < latestReadByOthers.at ||
+                                (new Date(message.createdAt).getTime() === latestReadByOthers.at &&
+                                  message.id <= latestReadByOthers.id))
+                            ? "Read"
+                            : "Delivered"}
+                      </span>
+                    ) : null}
+                  </time>
+                  {messageHistory[message.id] ? (
+                    <ul className="message-history">
+                      {messageHistory[message.id].length === 0 ? (
+                        <li>No earlier versions.</li>
+                      ) : null}
+                      {messageHistory[message.id].map((entry) => (
+                        <li key={entry.id}>
+                          <span>{formatLastSeen(entry.edited_at)}</span>
+                          {entry.previous_content}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                  {message.replyCount > 0 ? (
+                    <button
+                      className="thread-summary"
+                      onClick={() => setThreadParentId(message.id)}
+                      type="button"
+                    >
+                      <span className="avatar tiny">
+                        {asInitials(
+                          (message.lastReplySenderId &&
+                            memberNameById[message.lastReplySenderId]) ||
+                            "?"
+                        )}
+                      </span>
+                      {message.replyCount} {message.replyCount === 1 ? "reply" : "replies"}
+                      {message.lastReplyAt ? (
+                        <small>Last reply {formatLastSeen(message.lastReplyAt)}</small>
+                      ) : null}
+                    </button>
+                  ) : null}
+                  {(reactionsByMessage[message.id]?.length ?? 0) > 0 ||
+                  reactionPickerFor === message.id ? (
+                    <div className="reaction-row">
+                      {(reactionsByMessage[message.id] ?? []).map((group) => (
+                        <button
+                          className={`reaction-chip ${group.mine ? "mine" : ""}`}
+                          key={group.emoji}
+                          onClick={() => void toggleReaction(message.id, group.emoji)}
+                          title={group.userIds
+                            .map((userId) =>
+                              userId === currentUser?.id
+                                ? "You"
+                                : memberNameById[userId] ?? "Member"
+                            )
+                            .join(", ")}
+                          type="button"
+                        >
+                          {group.emoji} {group.userIds.length}
+                        </button>
+                      ))}
+                      {reactionPickerFor === message.id
+                        ? quickReactions.map((emoji) => (
+                            <button
+                              className="reaction-option"
+                              key={emoji}
+                              onClick={() => void toggleReaction(message.id, emoji)}
+                              type="button"
+                            >
+                              {emoji}
+                            </button>
+                          ))
+                        : null}
+                    </div>
+                  ) : null}
+                  {seenByMessage[message.id] ? (
+                    <div className="seen-by">
+                      <button
+                        onClick={() =>
+                          setReceiptPopoverMessageId((current) =>
+                            current === message.id ? null : message.id
+                          )
+                        }
+                        type="button"
+                      >
+                        Seen by
+                        {seenByMessage[message.id].slice(0, 5).map((receipt) => (
+                          <span className="avatar tiny" key={receipt.user_id}>
+                            {asInitials(memberNameById[receipt.user_id] ?? receipt.full_name)}
+                          </span>
+                        ))}
+                        {seenByMessage[message.id].length > 5 ? (
+                          <small>+{seenByMessage[message.id].length - 5}</small>
+                        ) : null}
+                      </button>
+                      {receiptPopoverMessageId === message.id ? (
+                        <ul className="seen-by-popover">
+                          {seenByMessage[message.id].map((receipt) => (
+                            <li key={receipt.user_id}>
+                              <span>{memberNameById[receipt.user_id] ?? receipt.full_name}</span>
+                              <small>
+                                {receipt.read_updated_at
+                                  ? new Date(receipt.read_updated_at).toLocaleString()
+                                  : "Read"}
+                              </small>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : null}
+                    </div>
+                  ) : null}
+                  {message.id > 0 && !message.deletedAt && editingMessageId !== message.id ? (
+                    <div className="message-actions">
+                      <button
+                        onClick={() =>
+                          setReactionPickerFor((current) =>
+                            current === message.id ? null : message.id
+                          )
+                        }
+                        type="button"
+                      >
+                        React
+                      </button>
+                      {message.parentMessageId === null ? (
+                        <button onClick={() => setThreadParentId(message.id)} type="button">
+                          Reply
+                        </button>
+                      ) : null}
+                      {message.sender === "me" ? (
+                        <button onClick={() => startEditingMessage(message)} type="button">
+                          Edit
+                        </button>
+                      ) : null}
+                      {message.sender === "me" || canModerate ? (
+                        <button onClick={() => void deleteMessage(message.id)} type="button">
+                          Delete
+                        </button>
+                      ) : null}
+                    </div>
+                  ) : null}
+                </article>
+              </Fragment>
+            ))}
+          </div>
+
+          {threadParent ? (
+            <aside className="thread-panel">
+              <header>
+                <strong>Thread</strong>
+                <button onClick={() => setThreadParentId(null)} type="button">
+                  Close
+                </button>
+              </header>
+              <article className="message theirs thread-parent">
+                <span className="message-sender">{threadParent.senderName}</span>
+                {threadParent.deletedAt ? (
+                  <p className="message-tombstone">Message deleted</p>
+                ) : (
+                  <p>
+                    {renderMentions(
+                      threadParent.content,
+                      mentionNamesByMessage[threadParent.id] ?? [],
+                      selfMentionName
+                    )}
+                  </p>
+                )}
+                <time>{threadParent.timestamp}</time>
+              </article>
+              <div className="thread-replies">
+                {threadLoading ? <p className="state-note">Loading replies...</p> : null}
+                {!threadLoading && threadReplies.length === 0 ? (
+                  <p className="state-note">No replies yet.</p>
+                ) : null}
+                {threadReplies.map((reply) => (
+                  <article
+                    className={`message ${reply.sender === "me" ? "mine" : "theirs"}`}
+                    key={reply.id}
+                  >
+                    <span className="message-sender">{reply.senderName}</span>
+                    {reply.deletedAt ? (
+                      <p className="message-tombstone">Message deleted</p>
+                    ) : (
+                      <p>
+                        {renderMentions(
+                          reply.content,
+                          mentionNamesByMessage[reply.id] ?? [],
+                          selfMentionName
+                        )}
+                      </p>
+                    )}
+                    <time>
+                      {reply.timestamp}
+                      {reply.editedAt && !reply.deletedAt ? (
+                        <span className="message-edited">edited</span>
+                      ) : null}
+                    </time>
+                  </article>
+                ))}
+              </div>
+              <footer className="thread-composer">
+                <input
+                  onChange={(event) => setThreadDraft(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") {
+                      event.preventDefault();
+                      void sendThreadReply();
+                    }
+                  }}
+                  placeholder="Reply in thread..."
+                  type="text"
+                  value={threadDraft}
+                />
+                <label>
+                  <input
+                    checked={threadAlsoSend}
+                    onChange={(event) => setThreadAlsoSend(event.target.checked)}
+                    type="checkbox"
+                  />
+                  Also send to room
+                </label>
+                <button disabled={threadBusy} onClick={sendThreadReply} type="button">
+                  {threadBusy ? "Sending..." : "Reply"}
+                </button>
+              </footer>
+            </aside>
           ) : null}
-          {messages.map((message) => (
-            <article
-              className={`message ${message.sender === "me" ? "mine" : "theirs"}`}
-              key={message.id}
-            >
-              <span className="message-sender">{message.senderName}</span>
-              <p>{message.content}</p>
-              <time>{message.timestamp}</time>
-            </article>
-          ))}
         </div>
 
-        <footer className="composer">
+        {pendingUploads.length > 0 ? (
+          <div className="upload-tray">
+            {pendingUploads.map((upload) => (
+              <div className={`upload-item ${upload.status}`} key={upload.localId}>
+                {upload.previewUrl ? (
+                  <img alt={upload.file.name} src={upload.previewUrl} />
+                ) : (
+                  <span className="upload-icon">{upload.file.name.split(".").pop()}</span>
+                )}
+                <div>
+                  <strong>{upload.file.name}</strong>
+                  <small>
+                    {upload.status === "error"
+                      ? upload.error
+                      : upload.status === "uploading"
+                        ? `${Math.round(upload.progress * 100)}% of ${formatBytes(upload.file.size)}`
+                        : formatBytes(upload.file.size)}
+                  </small>
+                  {upload.status === "uploading" ? (
+                    <progress max={1} value={upload.progress} />
+                  ) : null}
+                </div>
+                <button onClick={() => removePendingUpload(upload.localId)} type="button">
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        {activeConversation?.archivedAt ? (
+          <p className="archived-note">
+            This room was archived {formatLastSeen(activeConversation.archivedAt)} and is
+            read-only.
+          </p>
+        ) : null}
+
+        <footer
+          className={`composer ${dragActive ? "drag-active" : ""}`}
+          onDragLeave={() => setDragActive(false)}
+          onDragOver={(event) => {
+            if (composerLocked) return;
+            event.preventDefault();
+            setDragActive(true);
+          }}
+          onDrop={handleComposerDrop}
+        >
+          <input
+            accept={allowedAttachmentMimeTypes.join(",")}
+            hidden
+            multiple
+            onChange={(event) => {
+              queueAttachments(Array.from(event.target.files ?? []));
+              event.target.value = "";
+            }}
+            ref={fileInputRef}
+            type="file"
+          />
+          <button
+            className="composer-attach"
+            disabled={composerLocked}
+            onClick={() => fileInputRef.current?.click()}
+            type="button"
+          >
+            Attach
+          </button>
+          {mentionSuggestions.length > 0 ? (
+            <ul className="mention-suggestions">
+              {mentionSuggestions.map((member, index) => (
+                <li key={member.user_id}>
+                  <button
+                    className={index === mentionIndex ? "active" : ""}
+                    onMouseDown={(event) => {
+                      event.preventDefault();
+                      pickMention(member);
+                    }}
+                    type="button"
+                  >
+                    <span className="avatar tiny">{asInitials(member.full_name ?? "?")}</span>
+                    {member.full_name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : null}
           <input
-            disabled={activeConversationId === null}
-            onChange={(event) => setMessageDraft(event.target.value)}
+            disabled={composerLocked}
+            onBlur={() => setMentionQuery(null)}
+            onChange={(event) =>
+              handleDraftChange(
+                event.target.value,
+                event.target.selectionStart ?? event.target.value.length
+              )
+            }
+            onPaste={handleComposerPaste}
             onKeyDown={(event) => {
+              if (mentionSuggestions.length > 0) {
+                if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+                  event.preventDefault();
+                  const step = event.key === "ArrowDown" ? 1 : -1;
+                  setMentionIndex(
+                    (current) =>
+                      (current + step + mentionSuggestions.length) % mentionSuggestions.length
+                  );
+                  return;
+                }
+                if (event.key === "Enter" || event.key === "Tab") {
+                  event.preventDefault();
+                  pickMention(mentionSuggestions[mentionIndex] ?? mentionSuggestions[0]);
+                  return;
+                }
+                if (event.key === "Escape") {
+                  setMentionQuery(null);
+                  return;
+                }
+              }
               if (event.key === "Enter") {
                 event.preventDefault();
                 void sendMessage();
               }
             }}
-            placeholder="Write a message..."
+            placeholder="Write a message, @mention someone, drop or paste files..."
+            ref={composerInputRef}
             type="text"
             value={messageDraft}
           />
           <button
-            disabled={activeConversationId === null || composerBusy}
+            disabled={composerLocked || composerBusy || uploadsInFlight}
             onClick={sendMessage}
             type="button"
           >
-            {composerBusy ? "Sending..." : "Send"}
+            {composerBusy ? "Sending..." : uploadsInFlight ? "Uploading..." : "Send"}
           </button>
         </footer>
       </section>
@@ -1823,11 +6345,210 @@ function App() {
           <p>{currentUser?.email}</p>
         </div>
 
+        {activeConversation ? (
+          <section className="stack">
+            <h5>
+              Members · {roomMembers.length} ·{" "}
+              {presenceSummaryByConversation[activeConversation.id]?.onlineCount ?? 0} online
+            </h5>
+            <ul className="presence-list">
+              {activeRoomPresence.map((member) => (
+                <li key={member.userId}>
+                  <i className={`status-dot ${member.status}`} />
+                  <span className="member-name">
+                    {member.userId === currentUser?.id ? "You" : member.fullName}
+                    {member.teamName ? <small>{member.teamName}</small> : null}
+                  </span>
+                  <small>
+                    {member.status === "online"
+                      ? "Online"
+                      : member.status === "away"
+                        ? "Away"
+                        : member.lastSeenAt
+                          ? `Last seen ${formatLastSeen(member.lastSeenAt)}`
+                          : "Offline"}
+                  </small>
+                  {member.role ? (
+                    <em className={`role-badge ${member.role}`}>{member.role}</em>
+                  ) : null}
+                  {member.joinedAt ? (
+                    <small className="member-joined">
+                      Joined{" "}
+                      {new Date(member.joinedAt).toLocaleDateString([], {
+                        month: "short",
+                        day: "numeric",
+                        year: "numeric"
+                      })}
+                    </small>
+                  ) : null}
+                  {member.userId !== currentUser?.id && member.role ? (
+                    <div className="member-quick-actions">
+                      <button onClick={() => mentionMember(member.fullName)} type="button">
+                        Mention
+                      </button>
+                      {activeConversation?.directUserId !== member.userId ? (
+                        <button
+                          onClick={() => void openDirectConversation(member.userId)}
+                          type="button"
+                        >
+                          Message
+                        </button>
+                      ) : null}
+                      <button
+                        disabled={callStatus !== "idle"}
+                        onClick={() => void callMember(member.userId)}
+                        title={`Call ${member.fullName} in a direct message`}
+                        type="button"
+                      >
+                        Call
+                      </button>
+                    </div>
+                  ) : null}
+                  {member.role &&
+                  member.userId !== currentUser?.id &&
+                  myRole &&
+                  roleRank[member.role] < roleRank[myRole] &&
+                  canModerate ? (
+                    <div className="member-role-actions">
+                      <select
+                        onChange={(event) =>
+                          void changeMemberRole(member.userId, event.target.value as MemberRole)
+                        }
+                        value={member.role}
+                      >
+                        {(["admin", "member", "guest"] as MemberRole[])
+                          .filter((role) => roleRank[role] < roleRank[myRole])
+                          .map((role) => (
+                            <option key={role} value={role}>
+                              {role}
+                            </option>
+                          ))}
+                      </select>
+                      {myRole === "owner" && member.role !== "guest" ? (
+                        <button
+                          onClick={() => void transferOwnership(member.userId, member.fullName)}
+                          type="button"
+                        >
+                          Make owner
+                        </button>
+                      ) : null}
+                      <button
+                        onClick={() => void removeMember(member.userId, member.fullName, false)}
+                        type="button"
+                      >
+                        Remove
+                      </button>
+                      <button
+                        className="danger"
+                        onClick={() => void removeMember(member.userId, member.fullName, true)}
+                        type="button"
+                      >
+                        Ban
+                      </button>
+                    </div>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+            <button className="leave-room" onClick={leaveConversation} type="button">
+              {activeConversation.kind === "direct" ? "Close conversation" : "Leave room"}
+            </button>
+          </section>
+        ) : null}
+
+        {activeConversation && invitePanelOpen && canInvite ? (
+          <section className="stack invite-panel">
+            <h5>Invites</h5>
+            <div className="invite-create">
+              <label>
+                <span>Uses</span>
+                <select
+                  onChange={(event) => setInviteMaxUses(Number(event.target.value))}
+                  value={inviteMaxUses}
+                >
+                  {inviteUseOptions.map((uses) => (
+                    <option key={uses} value={uses}>
+                      {uses === 1 ? "Single use" : `${uses} uses`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span>Expires</span>
+                <select
+                  onChange={(event) => setInviteExpiryMinutes(Number(event.target.value))}
+                  value={inviteExpiryMinutes}
+                >
+                  {inviteExpiryOptions.map((option) => (
+                    <option key={option.minutes} value={option.minutes}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button onClick={createInviteLink} type="button">
+                Create link
+              </button>
+            </div>
+            {invites.length === 0 ? <p className="state-note">No invites yet.</p> : null}
+            <ul className="invite-list">
+              {invites.map((invite) => {
+                const state = describeInviteState(invite);
+                const joined = inviteRedemptions.filter((row) => row.invite_id === invite.id);
+                const expiry = invite.expires_at
+                  ? `${state === "Expired" ? "expired" : "expires"} ${formatLastSeen(invite.expires_at)}`
+                  : "never expires";
+                return (
+                  <li className={state === "Active" ? "" : "inactive"} key={invite.id}>
+                    <div className="row">
+                      <strong>{state}</strong>
+                      <small>
+                        {invite.used_count}
+                        {invite.max_uses !== null ? ` / ${invite.max_uses}` : ""} used
+                      </small>
+                    </div>
+                    <small>
+                      By {invite.creator_name} · {formatLastSeen(invite.created_at)} · {expiry}
+                    </small>
+                    {joined.length > 0 ? (
+                      <small>
+                        Joined:{" "}
+                        {joined
+                          .map((row) => `${row.full_name} (${formatLastSeen(row.redeemed_at)})`)
+                          .join(", ")}
+                      </small>
+                    ) : null}
+                    <div className="invite-actions">
+                      {state === "Active" ? (
+                        <>
+                          <button
+                            onClick={() => void copyInviteLink(inviteUrlFor(invite.token))}
+                            type="button"
+                          >
+                            Copy
+                          </button>
+                          <button onClick={() => void revokeInvite(invite.id)} type="button">
+                            Revoke
+                          </button>
+                        </>
+                      ) : null}
+                      <button onClick={() => void regenerateInvite(invite.id)} type="button">
+                        Regenerate
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ) : null}
+
         <section className="stack">
           <h5>Backend status</h5>
           <ul>
             <li>Auth session: active</li>
             <li>Realtime: {realtimeStatus}</li>
+            <li>Presence: {presenceStatus}</li>
             <li>ICE config: {iceConfigMode === "dynamic" ? "twilio-turn" : "env"}</li>
             <li>TURN available: {turnReady ? "yes" : "no"}</li>
             <li>Call state: {callStatus}</li>
@@ -1849,6 +6570,116 @@ function App() {
           </button>
         </section>
       </aside>
+
+      {roomDialog ? (
+        <div className="lightbox" onClick={closeRoomDialog} role="dialog">
+          <form
+            className="room-dialog glass-card"
+            onClick={(event) => event.stopPropagation()}
+            onSubmit={submitRoomDialog}
+          >
+            <h3>{roomDialog === "create" ? "New room" : "Room settings"}</h3>
+            <label>
+              <span>Name</span>
+              <input
+                autoFocus
+                maxLength={80}
+                onChange={(event) => setRoomNameDraft(event.target.value)}
+                required
+                type="text"
+                value={roomNameDraft}
+              />
+            </label>
+            <label>
+              <span>Description</span>
+              <textarea
+                maxLength={280}
+                onChange={(event) => setRoomDescriptionDraft(event.target.value)}
+                rows={3}
+                value={roomDescriptionDraft}
+              />
+            </label>
+            <label>
+              <span>Who can join</span>
+              <select
+                onChange={(event) => setRoomVisibilityDraft(event.target.value as RoomVisibility)}
+                value={roomVisibilityDraft}
+              >
+                <option value="private">Private — invite link only</option>
+                <option value="public">Public — anyone can find and join</option>
+              </select>
+            </label>
+            {roomDialogError ? <p className="feedback error">{roomDialogError}</p> : null}
+            <div className="room-dialog-actions">
+              <button disabled={roomDialogBusy || !roomNameDraft.trim()} type="submit">
+                {roomDialog === "create" ? "Create room" : "Save"}
+              </button>
+              <button disabled={roomDialogBusy} onClick={closeRoomDialog} type="button">
+                Cancel
+              </button>
+            </div>
+            {roomDialog === "edit" && activeConversation ? (
+              <>
+                <div className="room-dialog-danger">
+                  <button
+                    disabled={roomDialogBusy}
+                    onClick={() => void toggleRoomArchived()}
+                    type="button"
+                  >
+                    {activeConversation.archivedAt ? "Restore room" : "Archive room"}
+                  </button>
+                  {myRole === "owner" ? (
+                    <button
+                      className="danger"
+                      disabled={roomDialogBusy}
+                      onClick={() => void deleteRoom()}
+                      type="button"
+                    >
+                      Delete room
+                    </button>
+                  ) : null}
+                </div>
+                {roomEvents.length > 0 ? (
+                  <ul className="room-history">
+                    {roomEvents.map((event) => (
+                      <li key={event.id}>
+                        <span>{describeRoomEvent(event)}</span>
+                        <small>{formatLastSeen(event.created_at)}</small>
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+              </>
+            ) : null}
+          </form>
+        </div>
+      ) : null}
+
+      {lightboxAttachment ? (
+        <div
+          className="lightbox"
+          onClick={() => setLightboxAttachment(null)}
+          role="dialog"
+        >
+          <figure onClick={(event) => event.stopPropagation()}>
+            {signedUrls[lightboxAttachment.storage_path] ? (
+              <img
+                alt={lightboxAttachment.file_name}
+                src={signedUrls[lightboxAttachment.storage_path].url}
+              />
+            ) : null}
+            <figcaption>
+              <span>{lightboxAttachment.file_name}</span>
+              <button onClick={() => void downloadAttachment(lightboxAttachment)} type="button">
+                Download
+              </button>
+              <button onClick={() => setLightboxAttachment(null)} type="button">
+                Close
+              </button>
+            </figcaption>
+          </figure>
+        </div>
+      ) : null}
     </main>
   );
 }
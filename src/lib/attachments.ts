@@ -0,0 +1,119 @@
+import { supabase } from "./supabase";
+
+export const attachmentBucket = "message-attachments";
+export const maxAttachmentBytes = 25 * 1024 * 1024;
+export const maxAttachmentsPerMessage = 10;
+
+// Keep in sync with the bucket and check constraint in 011_add_message_attachments.sql.
+export const allowedAttachmentMimeTypes = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "application/zip",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation"
+];
+
+export const isImageMimeType = (mimeType: string) => mimeType.startsWith("image/");
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const validateAttachment = (file: File): string | null => {
+  if (!allowedAttachmentMimeTypes.includes(file.type)) {
+    return `${file.name}: this file type is not supported.`;
+  }
+  if (file.size <= 0) {
+    return `${file.name}: file is empty.`;
+  }
+  if (file.size > maxAttachmentBytes) {
+    return `${file.name}: files must be ${formatBytes(maxAttachmentBytes)} or smaller.`;
+  }
+  return null;
+};
+
+// Storage policies read the room and uploader from the first two folders.
+export const buildAttachmentPath = (
+  conversationId: number,
+  userId: string,
+  fileName: string
+) => {
+  const safeName = fileName.replace(/[^\w.-]+/g, "_").slice(-120) || "file";
+  return `${conversationId}/${userId}/${crypto.randomUUID()}-${safeName}`;
+};
+
+export const readImageSize = (file: File) =>
+  new Promise<{ width: number; height: number } | null>((resolve) => {
+    if (!isImageMimeType(file.type)) {
+      resolve(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      resolve({ width: image.naturalWidth, height: image.naturalHeight });
+      URL.revokeObjectURL(url);
+    };
+    image.onerror = () => {
+      resolve(null);
+      URL.revokeObjectURL(url);
+    };
+    image.src = url;
+  });
+
+// Uploads straight to the Storage REST endpoint: supabase-js does not report progress.
+export const uploadAttachment = async (
+  path: string,
+  file: File,
+  onProgress: (fraction: number) => void
+) => {
+  const {
+    data: { session }
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error("Sign in again to upload files.");
+  }
+
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+  const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+
+  await new Promise<void>((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open("POST", `${supabaseUrl}/storage/v1/object/${attachmentBucket}/${encodedPath}`);
+    request.setRequestHeader("Authorization", `Bearer ${session.access_token}`);
+    request.setRequestHeader("apikey", anonKey);
+    request.setRequestHeader("x-upsert", "false");
+    request.setRequestHeader("Content-Type", file.type);
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(event.loaded / event.total);
+      }
+    };
+    request.onload = () => {
+      if (request.status >= 200 && request.status < 300) {
+        onProgress(1);
+        resolve();
+        return;
+      }
+      let message = `Upload failed (${request.status}).`;
+      try {
+        const body = JSON.parse(request.responseText) as { message?: string };
+        if (body.message) message = body.message;
+      } catch {
+        // Keep the status-based message.
+      }
+      reject(new Error(message));
+    };
+    request.onerror = () => reject(new Error("Upload failed. Check your connection."));
+    request.send(file);
+  });
+};
@@ -0,0 +1,63 @@
+alter table public.profiles
+  add column if not exists last_seen_at timestamptz;
+
+create or replace function public.touch_last_seen()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  update public.profiles
+  set last_seen_at = timezone('utc', now())
+  where id = v_uid;
+end;
+$$;
+
+grant execute on function public.touch_last_seen() to authenticated;
+
+create or replace function public.list_room_last_seen(p_conversation_id bigint)
+returns table (
+  user_id uuid,
+  full_name text,
+  last_seen_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (
+    select 1
+    from public.conversation_members m
+    where m.conversation_id = p_conversation_id
+      and m.user_id = v_uid
+  ) then
+    raise exception 'Not a member of this room';
+  end if;
+
+  return query
+  select m.user_id, p.full_name, p.last_seen_at
+  from public.conversation_members m
+  join public.profiles p on p.id = m.user_id
+  where m.conversation_id = p_conversation_id
+  order by p.full_name;
+end;
+$$;
+
+grant execute on function public.list_room_last_seen(bigint) to authenticated;
@@ -0,0 +1,88 @@
+alter table public.messages
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz;
+
+-- Deleted messages keep their row as a tombstone but drop their content.
+alter table public.messages
+  drop constraint if exists messages_content_check;
+alter table public.messages
+  add constraint messages_content_check check (
+    (deleted_at is not null and content = '')
+    or (char_length(content) > 0 and char_length(content) <= 4000)
+  );
+
+create table if not exists public.message_edits (
+  id bigint generated always as identity primary key,
+  message_id bigint not null references public.messages(id) on delete cascade,
+  editor_id uuid not null references public.profiles(id) on delete cascade,
+  previous_content text not null,
+  edited_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists message_edits_message_edited_idx
+  on public.message_edits (message_id, edited_at desc);
+
+alter table public.message_edits enable row level security;
+
+drop policy if exists "message_edits_select_member" on public.message_edits;
+create policy "message_edits_select_member"
+  on public.message_edits
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.messages msg
+      join public.conversation_members m on m.conversation_id = msg.conversation_id
+      where msg.id = message_edits.message_id
+        and m.user_id = (select auth.uid())
+    )
+  );
+
+drop policy if exists "messages_update_sender" on public.messages;
+create policy "messages_update_sender"
+  on public.messages
+  for update
+  to authenticated
+  using (
+    (select auth.uid()) = sender_id
+    and deleted_at is null
+  )
+  with check ((select auth.uid()) = sender_id);
+
+grant update (content, deleted_at) on public.messages to authenticated;
+grant select on public.message_edits to authenticated;
+
+create or replace function public.handle_message_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.deleted_at is not null then
+    raise exception 'Message was deleted';
+  end if;
+
+  if new.deleted_at is not null then
+    new.deleted_at := timezone('utc', now());
+    new.content := '';
+    delete from public.message_edits where message_id = old.id;
+    return new;
+  end if;
+
+  if new.content is distinct from old.content then
+    insert into public.message_edits(message_id, editor_id, previous_content)
+    values (old.id, coalesce(auth.uid(), old.sender_id), old.content);
+    new.edited_at := timezone('utc', now());
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_before_update on public.messages;
+create trigger messages_before_update
+  before update on public.messages
+  for each row
+  execute function public.handle_message_update();
@@ -0,0 +1,120 @@
+alter table public.messages
+  add column if not exists parent_message_id bigint references public.messages(id) on delete cascade,
+  add column if not exists also_sent_to_channel boolean not null default false,
+  add column if not exists reply_count int not null default 0,
+  add column if not exists last_reply_at timestamptz,
+  add column if not exists last_reply_sender_id uuid references public.profiles(id) on delete set null;
+
+create index if not exists messages_parent_created_idx
+  on public.messages (parent_message_id, created_at)
+  where parent_message_id is not null;
+
+create index if not exists messages_conversation_channel_created_idx
+  on public.messages (conversation_id, created_at desc)
+  where parent_message_id is null or also_sent_to_channel;
+
+create or replace function public.handle_message_reply_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_parent record;
+begin
+  if new.parent_message_id is null then
+    new.also_sent_to_channel := false;
+    return new;
+  end if;
+
+  select id, conversation_id, parent_message_id
+  into v_parent
+  from public.messages
+  where id = new.parent_message_id;
+
+  if not found then
+    raise exception 'Parent message not found';
+  end if;
+
+  if v_parent.conversation_id <> new.conversation_id then
+    raise exception 'Reply must be in the same room as its parent';
+  end if;
+
+  -- Threads are one level deep: replying to a reply lands in the root thread.
+  if v_parent.parent_message_id is not null then
+    new.parent_message_id := v_parent.parent_message_id;
+  end if;
+
+  new.reply_count := 0;
+  new.last_reply_at := null;
+  new.last_reply_sender_id := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_before_insert_reply on public.messages;
+create trigger messages_before_insert_reply
+  before insert on public.messages
+  for each row
+  execute function public.handle_message_reply_insert();
+
+create or replace function public.bump_thread_stats()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.parent_message_id is null then
+    return null;
+  end if;
+
+  update public.messages
+  set reply_count = reply_count + 1,
+      last_reply_at = new.created_at,
+      last_reply_sender_id = new.sender_id
+  where id = new.parent_message_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists messages_after_insert_reply on public.messages;
+create trigger messages_after_insert_reply
+  after insert on public.messages
+  for each row
+  execute function public.bump_thread_stats();
+
+-- Thread stat bumps must not count as edits or be blocked by tombstoned parents.
+create or replace function public.handle_message_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.content is not distinct from old.content
+    and new.deleted_at is not distinct from old.deleted_at then
+    return new;
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Message was deleted';
+  end if;
+
+  if new.deleted_at is not null then
+    new.deleted_at := timezone('utc', now());
+    new.content := '';
+    delete from public.message_edits where message_id = old.id;
+    return new;
+  end if;
+
+  if new.content is distinct from old.content then
+    insert into public.message_edits(message_id, editor_id, previous_content)
+    values (old.id, coalesce(auth.uid(), old.sender_id), old.content);
+    new.edited_at := timezone('utc', now());
+  end if;
+
+  return new;
+end;
+$$;
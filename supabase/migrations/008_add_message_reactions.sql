@@ -0,0 +1,78 @@
+create table if not exists public.message_reactions (
+  message_id bigint not null references public.messages(id) on delete cascade,
+  conversation_id bigint not null references public.conversations(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  emoji text not null check (char_length(emoji) > 0 and char_length(emoji) <= 16),
+  created_at timestamptz not null default timezone('utc', now()),
+  primary key (message_id, user_id, emoji)
+);
+
+create index if not exists message_reactions_conversation_idx
+  on public.message_reactions (conversation_id, message_id);
+
+create index if not exists message_reactions_user_idx
+  on public.message_reactions (user_id);
+
+-- Full row images on delete. Realtime still sends only the primary key for DELETE events
+-- on tables with RLS, and does not filter them by RLS (040 stops streaming this table).
+alter table public.message_reactions replica identity full;
+
+alter table public.message_reactions enable row level security;
+
+drop policy if exists "message_reactions_select_member" on public.message_reactions;
+create policy "message_reactions_select_member"
+  on public.message_reactions
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = message_reactions.conversation_id
+        and m.user_id = (select auth.uid())
+    )
+  );
+
+drop policy if exists "message_reactions_insert_member_self" on public.message_reactions;
+create policy "message_reactions_insert_member_self"
+  on public.message_reactions
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = message_reactions.conversation_id
+        and m.user_id = (select auth.uid())
+    )
+    and exists (
+      select 1
+      from public.messages msg
+      where msg.id = message_reactions.message_id
+        and msg.conversation_id = message_reactions.conversation_id
+        and msg.deleted_at is null
+    )
+  );
+
+drop policy if exists "message_reactions_delete_own" on public.message_reactions;
+create policy "message_reactions_delete_own"
+  on public.message_reactions
+  for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+grant select, insert, delete on public.message_reactions to authenticated;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'message_reactions'
+  ) then
+    alter publication supabase_realtime add table public.message_reactions;
+  end if;
+end $$;
@@ -0,0 +1,74 @@
+alter table public.messages
+  add column if not exists content_tsv tsvector
+  generated always as (to_tsvector('simple', coalesce(content, ''))) stored;
+
+create index if not exists messages_content_tsv_idx
+  on public.messages using gin (content_tsv);
+
+-- Snippet highlights are wrapped in \x02 ... \x03 so the client never renders server HTML.
+create or replace function public.search_messages(
+  p_query text,
+  p_limit int default 30
+)
+returns table (
+  message_id bigint,
+  conversation_id bigint,
+  conversation_name text,
+  parent_message_id bigint,
+  also_sent_to_channel boolean,
+  sender_name text,
+  snippet text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_query tsquery;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_query is null or char_length(trim(p_query)) < 2 then
+    return;
+  end if;
+
+  v_query := websearch_to_tsquery('simple', p_query);
+  if numnode(v_query) = 0 then
+    return;
+  end if;
+
+  return query
+  select
+    msg.id,
+    msg.conversation_id,
+    c.name,
+    msg.parent_message_id,
+    msg.also_sent_to_channel,
+    coalesce(nullif(trim(p.full_name), ''), 'Member'),
+    ts_headline(
+      'simple',
+      msg.content,
+      v_query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=24, MinWords=8, MaxFragments=2'
+    ),
+    msg.created_at
+  from public.messages msg
+  join public.conversation_members m
+    on m.conversation_id = msg.conversation_id
+   and m.user_id = v_uid
+  join public.conversations c on c.id = msg.conversation_id
+  left join public.profiles p on p.id = msg.sender_id
+  where msg.content_tsv @@ v_query
+    and msg.deleted_at is null
+  order by ts_rank(msg.content_tsv, v_query) desc, msg.created_at desc
+  limit least(greatest(coalesce(p_limit, 30), 1), 100);
+end;
+$$;
+
+grant execute on function public.search_messages(text, int) to authenticated;
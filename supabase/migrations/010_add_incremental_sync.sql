@@ -0,0 +1,124 @@
+alter table public.conversations
+  add column if not exists updated_at timestamptz not null default timezone('utc', now()),
+  add column if not exists last_message_at timestamptz;
+
+update public.conversations c
+set last_message_at = latest.created_at
+from (
+  select conversation_id, max(created_at) as created_at
+  from public.messages
+  where parent_message_id is null or also_sent_to_channel
+  group by conversation_id
+) latest
+where latest.conversation_id = c.id
+  and c.last_message_at is null;
+
+create index if not exists messages_conversation_edited_idx
+  on public.messages (conversation_id, edited_at)
+  where edited_at is not null;
+
+create or replace function public.touch_conversation_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.name is distinct from old.name
+    or new.description is distinct from old.description then
+    new.updated_at := timezone('utc', now());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists conversations_before_update on public.conversations;
+create trigger conversations_before_update
+  before update on public.conversations
+  for each row
+  execute function public.touch_conversation_updated_at();
+
+create or replace function public.bump_conversation_last_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.parent_message_id is not null and not new.also_sent_to_channel then
+    return null;
+  end if;
+
+  update public.conversations
+  set last_message_at = new.created_at
+  where id = new.conversation_id
+    and (last_message_at is null or last_message_at < new.created_at);
+
+  return null;
+end;
+$$;
+
+drop trigger if exists messages_after_insert_bump_conversation on public.messages;
+create trigger messages_after_insert_bump_conversation
+  after insert on public.messages
+  for each row
+  execute function public.bump_conversation_last_message();
+
+-- Rooms the caller belongs to that were created, joined, renamed or got
+-- channel messages after p_since, with their latest preview.
+create or replace function public.sync_conversations_since(p_since timestamptz)
+returns table (
+  id bigint,
+  name text,
+  description text,
+  created_at timestamptz,
+  latest_content text,
+  latest_at timestamptz,
+  new_message_count int,
+  changed_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    c.id,
+    c.name,
+    c.description,
+    c.created_at,
+    case when latest.deleted_at is not null then 'Message deleted' else latest.content end,
+    latest.created_at,
+    coalesce(fresh.message_count, 0),
+    greatest(c.created_at, c.updated_at, m.joined_at, coalesce(c.last_message_at, c.created_at))
+  from public.conversation_members m
+  join public.conversations c on c.id = m.conversation_id
+  left join lateral (
+    select msg.content, msg.deleted_at, msg.created_at
+    from public.messages msg
+    where msg.conversation_id = c.id
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+    order by msg.created_at desc
+    limit 1
+  ) latest on true
+  left join lateral (
+    select count(*)::int as message_count
+    from public.messages msg
+    where msg.conversation_id = c.id
+      and msg.created_at > p_since
+      and msg.sender_id <> v_uid
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+  ) fresh on true
+  where m.user_id = v_uid
+    and greatest(c.created_at, c.updated_at, m.joined_at, coalesce(c.last_message_at, c.created_at)) > p_since;
+end;
+$$;
+
+grant execute on function public.sync_conversations_since(timestamptz) to authenticated;
@@ -0,0 +1,200 @@
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'message-attachments',
+  'message-attachments',
+  false,
+  26214400,
+  array[
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/zip',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  ]
+)
+on conflict (id) do update
+set public = excluded.public,
+    file_size_limit = excluded.file_size_limit,
+    allowed_mime_types = excluded.allowed_mime_types;
+
+alter table public.messages
+  add column if not exists has_attachments boolean not null default false;
+
+-- Attachment-only messages may have an empty caption.
+alter table public.messages
+  drop constraint if exists messages_content_check;
+alter table public.messages
+  add constraint messages_content_check check (
+    (deleted_at is not null and content = '')
+    or (has_attachments and char_length(content) <= 4000)
+    or (char_length(content) > 0 and char_length(content) <= 4000)
+  );
+
+create table if not exists public.message_attachments (
+  id bigint generated always as identity primary key,
+  message_id bigint not null references public.messages(id) on delete cascade,
+  conversation_id bigint not null references public.conversations(id) on delete cascade,
+  uploader_id uuid not null references public.profiles(id) on delete cascade,
+  storage_path text not null unique,
+  file_name text not null check (char_length(file_name) > 0 and char_length(file_name) <= 255),
+  mime_type text not null check (
+    mime_type in (
+      'image/png',
+      'image/jpeg',
+      'image/gif',
+      'image/webp',
+      'application/pdf',
+      'text/plain',
+      'text/csv',
+      'application/zip',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    )
+  ),
+  size_bytes bigint not null check (size_bytes > 0 and size_bytes <= 26214400),
+  width int,
+  height int,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists message_attachments_message_idx
+  on public.message_attachments (message_id);
+
+create index if not exists message_attachments_conversation_idx
+  on public.message_attachments (conversation_id, created_at desc);
+
+alter table public.message_attachments enable row level security;
+
+drop policy if exists "message_attachments_select_member" on public.message_attachments;
+create policy "message_attachments_select_member"
+  on public.message_attachments
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = message_attachments.conversation_id
+        and m.user_id = (select auth.uid())
+    )
+  );
+
+drop policy if exists "message_attachments_insert_sender" on public.message_attachments;
+create policy "message_attachments_insert_sender"
+  on public.message_attachments
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = uploader_id
+    and storage_path like conversation_id::text || '/' || (select auth.uid())::text || '/%'
+    and exists (
+      select 1
+      from public.messages msg
+      join public.conversation_members m on m.conversation_id = msg.conversation_id
+      where msg.id = message_attachments.message_id
+        and msg.conversation_id = message_attachments.conversation_id
+        and msg.sender_id = (select auth.uid())
+        and m.user_id = (select auth.uid())
+    )
+  );
+
+grant select, insert on public.message_attachments to authenticated;
+
+-- Object paths are <conversation_id>/<uploader_id>/<file>, so access mirrors room membership.
+drop policy if exists "message_attachments_objects_select_member" on storage.objects;
+create policy "message_attachments_objects_select_member"
+  on storage.objects
+  for select
+  to authenticated
+  using (
+    bucket_id = 'message-attachments'
+    and (storage.foldername(name))[1] ~ '^[0-9]+$'
+    and exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = ((storage.foldername(name))[1])::bigint
+        and m.user_id = (select auth.uid())
+    )
+  );
+
+drop policy if exists "message_attachments_objects_insert_member" on storage.objects;
+create policy "message_attachments_objects_insert_member"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (
+    bucket_id = 'message-attachments'
+    and (storage.foldername(name))[1] ~ '^[0-9]+$'
+    and (storage.foldername(name))[2] = (select auth.uid())::text
+    and exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = ((storage.foldername(name))[1])::bigint
+        and m.user_id = (select auth.uid())
+    )
+  );
+
+drop policy if exists "message_attachments_objects_delete_uploader" on storage.objects;
+create policy "message_attachments_objects_delete_uploader"
+  on storage.objects
+  for delete
+  to authenticated
+  using (
+    bucket_id = 'message-attachments'
+    and (storage.foldername(name))[2] = (select auth.uid())::text
+  );
+
+-- Deleting a message also drops its attachment rows; the sender's client removes the objects.
+create or replace function public.handle_message_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.content is not distinct from old.content
+    and new.deleted_at is not distinct from old.deleted_at then
+    return new;
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Message was deleted';
+  end if;
+
+  if new.deleted_at is not null then
+    new.deleted_at := timezone('utc', now());
+    new.content := '';
+    delete from public.message_edits where message_id = old.id;
+    delete from public.message_attachments where message_id = old.id;
+    return new;
+  end if;
+
+  if new.content is distinct from old.content then
+    insert into public.message_edits(message_id, editor_id, previous_content)
+    values (old.id, coalesce(auth.uid(), old.sender_id), old.content);
+    new.edited_at := timezone('utc', now());
+  end if;
+
+  return new;
+end;
+$$;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'message_attachments'
+  ) then
+    alter publication supabase_realtime add table public.message_attachments;
+  end if;
+end $$;
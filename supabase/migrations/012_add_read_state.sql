@@ -0,0 +1,124 @@
+alter table public.conversation_members
+  add column if not exists last_read_message_id bigint references public.messages(id) on delete set null,
+  add column if not exists last_read_at timestamptz;
+
+-- Existing memberships start caught up instead of showing the whole history as unread.
+update public.conversation_members
+set last_read_at = timezone('utc', now())
+where last_read_at is null;
+
+create or replace function public.mark_conversation_read(
+  p_conversation_id bigint,
+  p_message_id bigint default null
+)
+returns table (
+  previous_read_at timestamptz,
+  read_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_member record;
+  v_target record;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select m.last_read_message_id, m.last_read_at
+  into v_member
+  from public.conversation_members m
+  where m.conversation_id = p_conversation_id
+    and m.user_id = v_uid
+  for update;
+
+  if not found then
+    raise exception 'Not a member of this room';
+  end if;
+
+  if p_message_id is null then
+    select msg.id, msg.created_at
+    into v_target
+    from public.messages msg
+    where msg.conversation_id = p_conversation_id
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+    order by msg.created_at desc, msg.id desc
+    limit 1;
+  else
+    select msg.id, msg.created_at
+    into v_target
+    from public.messages msg
+    where msg.id = p_message_id
+      and msg.conversation_id = p_conversation_id;
+  end if;
+
+  -- Read positions only move forward.
+  if found and (
+    v_member.last_read_at is null
+    or v_target.created_at > v_member.last_read_at
+    or (
+      v_target.created_at = v_member.last_read_at
+      and v_target.id > coalesce(v_member.last_read_message_id, 0)
+    )
+  ) then
+    update public.conversation_members m
+    set last_read_message_id = v_target.id,
+        last_read_at = v_target.created_at
+    where m.conversation_id = p_conversation_id
+      and m.user_id = v_uid;
+
+    return query select v_member.last_read_at, v_target.created_at;
+    return;
+  end if;
+
+  return query select v_member.last_read_at, v_member.last_read_at;
+end;
+$$;
+
+grant execute on function public.mark_conversation_read(bigint, bigint) to authenticated;
+
+create or replace function public.get_unread_counts()
+returns table (
+  conversation_id bigint,
+  unread_count int,
+  last_read_message_id bigint,
+  last_read_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    m.conversation_id,
+    coalesce(unread.message_count, 0),
+    m.last_read_message_id,
+    m.last_read_at
+  from public.conversation_members m
+  left join lateral (
+    select count(*)::int as message_count
+    from public.messages msg
+    where msg.conversation_id = m.conversation_id
+      and msg.created_at > coalesce(m.last_read_at, m.joined_at)
+      and msg.sender_id <> v_uid
+      and msg.deleted_at is null
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+  ) unread on true
+  where m.user_id = v_uid;
+end;
+$$;
+
+grant execute on function public.get_unread_counts() to authenticated;
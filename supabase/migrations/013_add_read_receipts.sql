@@ -0,0 +1,133 @@
+alter table public.conversation_members
+  add column if not exists read_updated_at timestamptz;
+
+-- The return shape changes, so the function has to be recreated.
+drop function if exists public.mark_conversation_read(bigint, bigint);
+
+create or replace function public.mark_conversation_read(
+  p_conversation_id bigint,
+  p_message_id bigint default null
+)
+returns table (
+  previous_read_at timestamptz,
+  read_at timestamptz,
+  read_message_id bigint,
+  read_updated_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_member record;
+  v_target record;
+  v_now timestamptz := timezone('utc', now());
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select m.last_read_message_id, m.last_read_at, m.read_updated_at
+  into v_member
+  from public.conversation_members m
+  where m.conversation_id = p_conversation_id
+    and m.user_id = v_uid
+  for update;
+
+  if not found then
+    raise exception 'Not a member of this room';
+  end if;
+
+  if p_message_id is null then
+    select msg.id, msg.created_at
+    into v_target
+    from public.messages msg
+    where msg.conversation_id = p_conversation_id
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+    order by msg.created_at desc, msg.id desc
+    limit 1;
+  else
+    select msg.id, msg.created_at
+    into v_target
+    from public.messages msg
+    where msg.id = p_message_id
+      and msg.conversation_id = p_conversation_id;
+  end if;
+
+  -- Read positions only move forward.
+  if found and (
+    v_member.last_read_at is null
+    or v_target.created_at > v_member.last_read_at
+    or (
+      v_target.created_at = v_member.last_read_at
+      and v_target.id > coalesce(v_member.last_read_message_id, 0)
+    )
+  ) then
+    update public.conversation_members m
+    set last_read_message_id = v_target.id,
+        last_read_at = v_target.created_at,
+        read_updated_at = v_now
+    where m.conversation_id = p_conversation_id
+      and m.user_id = v_uid;
+
+    return query select v_member.last_read_at, v_target.created_at, v_target.id, v_now;
+    return;
+  end if;
+
+  return query select
+    v_member.last_read_at,
+    v_member.last_read_at,
+    v_member.last_read_message_id,
+    v_member.read_updated_at;
+end;
+$$;
+
+grant execute on function public.mark_conversation_read(bigint, bigint) to authenticated;
+
+create or replace function public.list_room_read_receipts(p_conversation_id bigint)
+returns table (
+  user_id uuid,
+  full_name text,
+  last_read_message_id bigint,
+  last_read_at timestamptz,
+  read_updated_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (
+    select 1
+    from public.conversation_members m
+    where m.conversation_id = p_conversation_id
+      and m.user_id = v_uid
+  ) then
+    raise exception 'Not a member of this room';
+  end if;
+
+  return query
+  select
+    m.user_id,
+    coalesce(nullif(trim(p.full_name), ''), 'Member'),
+    m.last_read_message_id,
+    m.last_read_at,
+    m.read_updated_at
+  from public.conversation_members m
+  join public.profiles p on p.id = m.user_id
+  where m.conversation_id = p_conversation_id
+    and m.last_read_message_id is not null;
+end;
+$$;
+
+grant execute on function public.list_room_read_receipts(bigint) to authenticated;
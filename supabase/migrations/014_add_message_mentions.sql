@@ -0,0 +1,121 @@
+create table if not exists public.message_mentions (
+  message_id bigint not null references public.messages(id) on delete cascade,
+  conversation_id bigint not null references public.conversations(id) on delete cascade,
+  mentioned_user_id uuid not null references public.profiles(id) on delete cascade,
+  mentioned_by uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default timezone('utc', now()),
+  primary key (message_id, mentioned_user_id)
+);
+
+create index if not exists message_mentions_user_idx
+  on public.message_mentions (mentioned_user_id, created_at desc);
+
+create index if not exists message_mentions_conversation_idx
+  on public.message_mentions (conversation_id, message_id);
+
+alter table public.message_mentions enable row level security;
+
+drop policy if exists "message_mentions_select_member" on public.message_mentions;
+create policy "message_mentions_select_member"
+  on public.message_mentions
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = message_mentions.conversation_id
+        and m.user_id = (select auth.uid())
+    )
+  );
+
+-- Only the sender records mentions, and only of people who are in the room.
+drop policy if exists "message_mentions_insert_sender" on public.message_mentions;
+create policy "message_mentions_insert_sender"
+  on public.message_mentions
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = mentioned_by
+    and exists (
+      select 1
+      from public.messages msg
+      where msg.id = message_mentions.message_id
+        and msg.conversation_id = message_mentions.conversation_id
+        and msg.sender_id = (select auth.uid())
+        and msg.deleted_at is null
+    )
+    and exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = message_mentions.conversation_id
+        and m.user_id = message_mentions.mentioned_user_id
+    )
+  );
+
+grant select, insert on public.message_mentions to authenticated;
+
+-- Mentions of the caller in messages newer than their read position in that room.
+create or replace function public.list_unread_mentions(p_limit int default 50)
+returns table (
+  message_id bigint,
+  conversation_id bigint,
+  conversation_name text,
+  parent_message_id bigint,
+  also_sent_to_channel boolean,
+  sender_name text,
+  content text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    msg.id,
+    msg.conversation_id,
+    c.name,
+    msg.parent_message_id,
+    msg.also_sent_to_channel,
+    coalesce(nullif(trim(p.full_name), ''), 'Member'),
+    msg.content,
+    msg.created_at
+  from public.message_mentions mm
+  join public.messages msg on msg.id = mm.message_id
+  join public.conversation_members m
+    on m.conversation_id = mm.conversation_id
+   and m.user_id = v_uid
+  join public.conversations c on c.id = mm.conversation_id
+  left join public.profiles p on p.id = msg.sender_id
+  where mm.mentioned_user_id = v_uid
+    and msg.deleted_at is null
+    and msg.created_at > coalesce(m.last_read_at, m.joined_at)
+  order by msg.created_at desc
+  limit least(greatest(coalesce(p_limit, 50), 1), 200);
+end;
+$$;
+
+grant execute on function public.list_unread_mentions(int) to authenticated;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'message_mentions'
+  ) then
+    alter publication supabase_realtime add table public.message_mentions;
+  end if;
+end $$;
@@ -0,0 +1,414 @@
+alter table public.conversation_members
+  add column if not exists role text not null default 'member';
+
+alter table public.conversation_members
+  drop constraint if exists conversation_members_role_check;
+alter table public.conversation_members
+  add constraint conversation_members_role_check
+  check (role in ('owner', 'admin', 'member', 'guest'));
+
+update public.conversation_members m
+set role = 'owner'
+from public.conversations c
+where c.id = m.conversation_id
+  and c.created_by = m.user_id
+  and m.role <> 'owner';
+
+create unique index if not exists conversation_members_one_owner_idx
+  on public.conversation_members (conversation_id)
+  where role = 'owner';
+
+create or replace function public.conversation_role_rank(p_role text)
+returns int
+language sql
+immutable
+as $$
+  select case p_role
+    when 'owner' then 4
+    when 'admin' then 3
+    when 'member' then 2
+    when 'guest' then 1
+    else 0
+  end;
+$$;
+
+-- Security definer so policies can call it without recursing into conversation_members RLS.
+create or replace function public.has_conversation_role(
+  p_conversation_id bigint,
+  p_min_role text
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.conversation_members m
+    where m.conversation_id = p_conversation_id
+      and m.user_id = auth.uid()
+      and public.conversation_role_rank(m.role) >= public.conversation_role_rank(p_min_role)
+  );
+$$;
+
+grant execute on function public.has_conversation_role(bigint, text) to authenticated;
+
+-- Renaming and describing a room is for admins and the owner.
+drop policy if exists "conversations_update_creator" on public.conversations;
+drop policy if exists "conversations_update_admin" on public.conversations;
+create policy "conversations_update_admin"
+  on public.conversations
+  for update
+  to authenticated
+  using ((select public.has_conversation_role(id, 'admin')))
+  with check ((select public.has_conversation_role(id, 'admin')));
+
+-- Admins can delete anyone's message; only the sender may change its content.
+drop policy if exists "messages_update_moderator" on public.messages;
+create policy "messages_update_moderator"
+  on public.messages
+  for update
+  to authenticated
+  using (
+    deleted_at is null
+    and (select public.has_conversation_role(conversation_id, 'admin'))
+  )
+  with check ((select public.has_conversation_role(conversation_id, 'admin')));
+
+create or replace function public.handle_message_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.content is not distinct from old.content
+    and new.deleted_at is not distinct from old.deleted_at then
+    return new;
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Message was deleted';
+  end if;
+
+  if new.deleted_at is not null then
+    new.deleted_at := timezone('utc', now());
+    new.content := '';
+    delete from public.message_edits where message_id = old.id;
+    delete from public.message_attachments where message_id = old.id;
+    return new;
+  end if;
+
+  if auth.uid() is not null and auth.uid() <> old.sender_id then
+    raise exception 'Only the sender can edit this message';
+  end if;
+
+  if new.content is distinct from old.content then
+    insert into public.message_edits(message_id, editor_id, previous_content)
+    values (old.id, coalesce(auth.uid(), old.sender_id), old.content);
+    new.edited_at := timezone('utc', now());
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Guests can answer calls but not start them.
+drop policy if exists "call_requests_insert_requester_member" on public.call_requests;
+create policy "call_requests_insert_requester_member"
+  on public.call_requests
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = requester_id
+    and (select public.has_conversation_role(conversation_id, 'member'))
+  );
+
+-- Invite tokens are only visible to the people allowed to hand them out.
+drop policy if exists "room_invites_select_member" on public.room_invites;
+drop policy if exists "room_invites_select_admin" on public.room_invites;
+create policy "room_invites_select_admin"
+  on public.room_invites
+  for select
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'admin')));
+
+drop policy if exists "room_invites_update_creator" on public.room_invites;
+drop policy if exists "room_invites_update_admin" on public.room_invites;
+create policy "room_invites_update_admin"
+  on public.room_invites
+  for update
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'admin')))
+  with check ((select public.has_conversation_role(conversation_id, 'admin')));
+
+create or replace function public.create_conversation_room(
+  p_name text,
+  p_description text default ''
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_conversation_id bigint;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  insert into public.conversations(name, description, created_by)
+  values (coalesce(nullif(trim(p_name), ''), 'Untitled Room'), coalesce(p_description, ''), v_uid)
+  returning id into v_conversation_id;
+
+  insert into public.conversation_members(conversation_id, user_id, role)
+  values (v_conversation_id, v_uid, 'owner')
+  on conflict do nothing;
+
+  return v_conversation_id;
+end;
+$$;
+
+create or replace function public.create_room_invite(
+  p_conversation_id bigint,
+  p_max_uses int default 1,
+  p_expires_in_minutes int default 1440
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_token text;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.has_conversation_role(p_conversation_id, 'admin') then
+    raise exception 'Only room admins can create invites';
+  end if;
+
+  v_token := replace(gen_random_uuid()::text, '-', '');
+
+  insert into public.room_invites(
+    conversation_id,
+    token,
+    created_by,
+    max_uses,
+    expires_at,
+    active
+  )
+  values (
+    p_conversation_id,
+    v_token,
+    v_uid,
+    case when p_max_uses is null or p_max_uses <= 0 then 1 else p_max_uses end,
+    case
+      when p_expires_in_minutes is null or p_expires_in_minutes <= 0 then null
+      else timezone('utc', now()) + make_interval(mins => p_expires_in_minutes)
+    end,
+    true
+  );
+
+  return v_token;
+end;
+$$;
+
+-- Owners manage admins; admins manage members and guests. Ownership moves via transfer only.
+create or replace function public.set_member_role(
+  p_conversation_id bigint,
+  p_user_id uuid,
+  p_role text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_actor_role text;
+  v_target_role text;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_role not in ('admin', 'member', 'guest') then
+    raise exception 'Unknown role';
+  end if;
+
+  if p_user_id = v_uid then
+    raise exception 'You cannot change your own role';
+  end if;
+
+  select m.role into v_actor_role
+  from public.conversation_members m
+  where m.conversation_id = p_conversation_id
+    and m.user_id = v_uid;
+
+  select m.role into v_target_role
+  from public.conversation_members m
+  where m.conversation_id = p_conversation_id
+    and m.user_id = p_user_id
+  for update;
+
+  if v_target_role is null then
+    raise exception 'Not a member of this room';
+  end if;
+
+  if public.conversation_role_rank(v_actor_role) < public.conversation_role_rank('admin')
+    or public.conversation_role_rank(v_target_role) >= public.conversation_role_rank(v_actor_role)
+    or public.conversation_role_rank(p_role) >= public.conversation_role_rank(v_actor_role) then
+    raise exception 'You do not have permission to change this role';
+  end if;
+
+  update public.conversation_members
+  set role = p_role
+  where conversation_id = p_conversation_id
+    and user_id = p_user_id;
+end;
+$$;
+
+grant execute on function public.set_member_role(bigint, uuid, text) to authenticated;
+
+create or replace function public.transfer_room_ownership(
+  p_conversation_id bigint,
+  p_new_owner uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (
+    select 1
+    from public.conversation_members m
+    where m.conversation_id = p_conversation_id
+      and m.user_id = v_uid
+      and m.role = 'owner'
+  ) then
+    raise exception 'Only the owner can transfer ownership';
+  end if;
+
+  if p_new_owner = v_uid or not exists (
+    select 1
+    from public.conversation_members m
+    where m.conversation_id = p_conversation_id
+      and m.user_id = p_new_owner
+  ) then
+    raise exception 'Choose another member of this room';
+  end if;
+
+  update public.conversation_members
+  set role = 'admin'
+  where conversation_id = p_conversation_id
+    and user_id = v_uid;
+
+  update public.conversation_members
+  set role = 'owner'
+  where conversation_id = p_conversation_id
+    and user_id = p_new_owner;
+end;
+$$;
+
+grant execute on function public.transfer_room_ownership(bigint, uuid) to authenticated;
+
+-- When the owner's membership goes away, the longest-standing admin (or member) takes over.
+create or replace function public.handle_owner_departure()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_successor uuid;
+begin
+  if old.role <> 'owner'
+    or not exists (select 1 from public.conversations c where c.id = old.conversation_id) then
+    return null;
+  end if;
+
+  select m.user_id into v_successor
+  from public.conversation_members m
+  where m.conversation_id = old.conversation_id
+    and m.role <> 'guest'
+  order by public.conversation_role_rank(m.role) desc, m.joined_at asc
+  limit 1;
+
+  if v_successor is not null then
+    update public.conversation_members
+    set role = 'owner'
+    where conversation_id = old.conversation_id
+      and user_id = v_successor;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists conversation_members_after_delete_owner on public.conversation_members;
+create trigger conversation_members_after_delete_owner
+  after delete on public.conversation_members
+  for each row
+  execute function public.handle_owner_departure();
+
+-- The return shape gains the member's role, so the function has to be recreated.
+drop function if exists public.list_room_last_seen(bigint);
+
+create or replace function public.list_room_last_seen(p_conversation_id bigint)
+returns table (
+  user_id uuid,
+  full_name text,
+  last_seen_at timestamptz,
+  role text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (
+    select 1
+    from public.conversation_members m
+    where m.conversation_id = p_conversation_id
+      and m.user_id = v_uid
+  ) then
+    raise exception 'Not a member of this room';
+  end if;
+
+  return query
+  select m.user_id, p.full_name, p.last_seen_at, m.role
+  from public.conversation_members m
+  join public.profiles p on p.id = m.user_id
+  where m.conversation_id = p_conversation_id
+  order by public.conversation_role_rank(m.role) desc, p.full_name;
+end;
+$$;
+
+grant execute on function public.list_room_last_seen(bigint) to authenticated;
@@ -0,0 +1,204 @@
+create table if not exists public.conversation_bans (
+  conversation_id bigint not null references public.conversations(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  banned_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default timezone('utc', now()),
+  primary key (conversation_id, user_id)
+);
+
+alter table public.conversation_bans enable row level security;
+
+drop policy if exists "conversation_bans_select_admin" on public.conversation_bans;
+create policy "conversation_bans_select_admin"
+  on public.conversation_bans
+  for select
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'admin')));
+
+grant select on public.conversation_bans to authenticated;
+
+-- Ends open calls the departing user is part of so the other side hangs up too.
+create or replace function public.end_member_calls(
+  p_conversation_id bigint,
+  p_user_id uuid
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.call_requests
+  set status = case when status = 'pending' then 'cancelled' else 'ended' end,
+      updated_at = timezone('utc', now())
+  where conversation_id = p_conversation_id
+    and status in ('pending', 'accepted')
+    and (requester_id = p_user_id or accepted_by = p_user_id);
+$$;
+
+revoke execute on function public.end_member_calls(bigint, uuid) from public;
+
+create or replace function public.leave_conversation(p_conversation_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  delete from public.conversation_members
+  where conversation_id = p_conversation_id
+    and user_id = v_uid;
+
+  if not found then
+    raise exception 'Not a member of this room';
+  end if;
+
+  perform public.end_member_calls(p_conversation_id, v_uid);
+end;
+$$;
+
+grant execute on function public.leave_conversation(bigint) to authenticated;
+
+-- Admins remove members and guests; the owner can also remove admins.
+create or replace function public.remove_conversation_member(
+  p_conversation_id bigint,
+  p_user_id uuid,
+  p_ban boolean default false
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_actor_role text;
+  v_target_role text;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_user_id = v_uid then
+    raise exception 'Use leave to remove yourself';
+  end if;
+
+  select m.role into v_actor_role
+  from public.conversation_members m
+  where m.conversation_id = p_conversation_id
+    and m.user_id = v_uid;
+
+  select m.role into v_target_role
+  from public.conversation_members m
+  where m.conversation_id = p_conversation_id
+    and m.user_id = p_user_id
+  for update;
+
+  if public.conversation_role_rank(v_actor_role) < public.conversation_role_rank('admin') then
+    raise exception 'Only room admins can remove members';
+  end if;
+
+  if v_target_role is not null
+    and public.conversation_role_rank(v_target_role) >= public.conversation_role_rank(v_actor_role) then
+    raise exception 'You do not have permission to remove this member';
+  end if;
+
+  if v_target_role is null and not p_ban then
+    raise exception 'Not a member of this room';
+  end if;
+
+  if p_ban then
+    insert into public.conversation_bans(conversation_id, user_id, banned_by)
+    values (p_conversation_id, p_user_id, v_uid)
+    on conflict (conversation_id, user_id) do nothing;
+  end if;
+
+  delete from public.conversation_members
+  where conversation_id = p_conversation_id
+    and user_id = p_user_id;
+
+  perform public.end_member_calls(p_conversation_id, p_user_id);
+end;
+$$;
+
+grant execute on function public.remove_conversation_member(bigint, uuid, boolean) to authenticated;
+
+create or replace function public.accept_room_invite(p_token text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_invite record;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select id, conversation_id, active, max_uses, used_count, expires_at
+  into v_invite
+  from public.room_invites
+  where token = p_token
+  for update;
+
+  if not found then
+    raise exception 'Invite not found';
+  end if;
+
+  if exists (
+    select 1
+    from public.conversation_bans b
+    where b.conversation_id = v_invite.conversation_id
+      and b.user_id = v_uid
+  ) then
+    raise exception 'You have been banned from this room';
+  end if;
+
+  if v_invite.active is not true then
+    raise exception 'Invite is inactive';
+  end if;
+
+  if v_invite.expires_at is not null and v_invite.expires_at < timezone('utc', now()) then
+    raise exception 'Invite expired';
+  end if;
+
+  if v_invite.max_uses is not null and v_invite.used_count >= v_invite.max_uses then
+    raise exception 'Invite usage limit reached';
+  end if;
+
+  insert into public.conversation_members(conversation_id, user_id)
+  values (v_invite.conversation_id, v_uid)
+  on conflict do nothing;
+
+  update public.room_invites
+  set used_count = used_count + 1,
+      updated_at = timezone('utc', now())
+  where id = v_invite.id;
+
+  return v_invite.conversation_id;
+end;
+$$;
+
+-- DELETE events carry the primary key, which is enough for a removed member to drop the room.
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'conversation_members'
+  ) then
+    alter publication supabase_realtime add table public.conversation_members;
+  end if;
+end $$;
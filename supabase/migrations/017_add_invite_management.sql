@@ -0,0 +1,266 @@
+create table if not exists public.room_invite_redemptions (
+  id bigint generated always as identity primary key,
+  invite_id bigint not null references public.room_invites(id) on delete cascade,
+  conversation_id bigint not null references public.conversations(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  redeemed_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists room_invite_redemptions_invite_idx
+  on public.room_invite_redemptions (invite_id, redeemed_at);
+
+create index if not exists room_invite_redemptions_conversation_idx
+  on public.room_invite_redemptions (conversation_id, redeemed_at desc);
+
+alter table public.room_invite_redemptions enable row level security;
+
+drop policy if exists "room_invite_redemptions_select_admin" on public.room_invite_redemptions;
+create policy "room_invite_redemptions_select_admin"
+  on public.room_invite_redemptions
+  for select
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'admin')));
+
+grant select on public.room_invite_redemptions to authenticated;
+
+-- Existing members opening a link no longer use it up; real joins are logged.
+create or replace function public.accept_room_invite(p_token text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_invite record;
+  v_joined int;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select id, conversation_id, active, max_uses, used_count, expires_at
+  into v_invite
+  from public.room_invites
+  where token = p_token
+  for update;
+
+  if not found then
+    raise exception 'Invite not found';
+  end if;
+
+  if exists (
+    select 1
+    from public.conversation_bans b
+    where b.conversation_id = v_invite.conversation_id
+      and b.user_id = v_uid
+  ) then
+    raise exception 'You have been banned from this room';
+  end if;
+
+  if exists (
+    select 1
+    from public.conversation_members m
+    where m.conversation_id = v_invite.conversation_id
+      and m.user_id = v_uid
+  ) then
+    return v_invite.conversation_id;
+  end if;
+
+  if v_invite.active is not true then
+    raise exception 'Invite is inactive';
+  end if;
+
+  if v_invite.expires_at is not null and v_invite.expires_at < timezone('utc', now()) then
+    raise exception 'Invite expired';
+  end if;
+
+  if v_invite.max_uses is not null and v_invite.used_count >= v_invite.max_uses then
+    raise exception 'Invite usage limit reached';
+  end if;
+
+  insert into public.conversation_members(conversation_id, user_id)
+  values (v_invite.conversation_id, v_uid)
+  on conflict do nothing;
+  get diagnostics v_joined = row_count;
+
+  if v_joined > 0 then
+    update public.room_invites
+    set used_count = used_count + 1,
+        updated_at = timezone('utc', now())
+    where id = v_invite.id;
+
+    insert into public.room_invite_redemptions(invite_id, conversation_id, user_id)
+    values (v_invite.id, v_invite.conversation_id, v_uid);
+  end if;
+
+  return v_invite.conversation_id;
+end;
+$$;
+
+create or replace function public.list_room_invites(p_conversation_id bigint)
+returns table (
+  id bigint,
+  token text,
+  created_by uuid,
+  creator_name text,
+  active boolean,
+  max_uses int,
+  used_count int,
+  expires_at timestamptz,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.has_conversation_role(p_conversation_id, 'admin') then
+    raise exception 'Only room admins can manage invites';
+  end if;
+
+  return query
+  select
+    i.id,
+    i.token,
+    i.created_by,
+    coalesce(nullif(trim(p.full_name), ''), 'Member'),
+    i.active,
+    i.max_uses,
+    i.used_count,
+    i.expires_at,
+    i.created_at
+  from public.room_invites i
+  left join public.profiles p on p.id = i.created_by
+  where i.conversation_id = p_conversation_id
+  order by i.active desc, i.created_at desc;
+end;
+$$;
+
+grant execute on function public.list_room_invites(bigint) to authenticated;
+
+create or replace function public.list_invite_redemptions(p_conversation_id bigint)
+returns table (
+  invite_id bigint,
+  user_id uuid,
+  full_name text,
+  redeemed_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.has_conversation_role(p_conversation_id, 'admin') then
+    raise exception 'Only room admins can manage invites';
+  end if;
+
+  return query
+  select
+    r.invite_id,
+    r.user_id,
+    coalesce(nullif(trim(p.full_name), ''), 'Member'),
+    r.redeemed_at
+  from public.room_invite_redemptions r
+  left join public.profiles p on p.id = r.user_id
+  where r.conversation_id = p_conversation_id
+  order by r.redeemed_at desc;
+end;
+$$;
+
+grant execute on function public.list_invite_redemptions(bigint) to authenticated;
+
+create or replace function public.revoke_room_invite(p_invite_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conversation_id bigint;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select conversation_id into v_conversation_id
+  from public.room_invites
+  where id = p_invite_id;
+
+  if v_conversation_id is null
+    or not public.has_conversation_role(v_conversation_id, 'admin') then
+    raise exception 'Invite not found';
+  end if;
+
+  update public.room_invites
+  set active = false,
+      updated_at = timezone('utc', now())
+  where id = p_invite_id;
+end;
+$$;
+
+grant execute on function public.revoke_room_invite(bigint) to authenticated;
+
+-- Swaps a leaked or spent link for a fresh token with the same limits and lifetime.
+create or replace function public.regenerate_room_invite(p_invite_id bigint)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_invite record;
+  v_token text;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select conversation_id, max_uses, expires_at, created_at
+  into v_invite
+  from public.room_invites
+  where id = p_invite_id
+  for update;
+
+  if not found or not public.has_conversation_role(v_invite.conversation_id, 'admin') then
+    raise exception 'Invite not found';
+  end if;
+
+  update public.room_invites
+  set active = false,
+      updated_at = timezone('utc', now())
+  where id = p_invite_id;
+
+  v_token := replace(gen_random_uuid()::text, '-', '');
+
+  insert into public.room_invites(conversation_id, token, created_by, max_uses, expires_at, active)
+  values (
+    v_invite.conversation_id,
+    v_token,
+    v_uid,
+    v_invite.max_uses,
+    case
+      when v_invite.expires_at is null then null
+      else timezone('utc', now()) + (v_invite.expires_at - v_invite.created_at)
+    end,
+    true
+  );
+
+  return v_token;
+end;
+$$;
+
+grant execute on function public.regenerate_room_invite(bigint) to authenticated;
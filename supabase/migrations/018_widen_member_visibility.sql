@@ -0,0 +1,15 @@
+-- Members can see who else is in their rooms. has_conversation_role is security
+-- definer, so the check does not recurse into this policy.
+drop policy if exists "conversation_members_select_own" on public.conversation_members;
+drop policy if exists "conversation_members_select_co_member" on public.conversation_members;
+create policy "conversation_members_select_co_member"
+  on public.conversation_members
+  for select
+  to authenticated
+  using (
+    (select auth.uid()) = user_id
+    or (select public.has_conversation_role(conversation_id, 'guest'))
+  );
+
+create index if not exists conversation_members_conversation_joined_idx
+  on public.conversation_members (conversation_id, joined_at);
@@ -0,0 +1,149 @@
+alter table public.conversations
+  add column if not exists kind text not null default 'room',
+  add column if not exists direct_key text;
+
+alter table public.conversations
+  drop constraint if exists conversations_kind_check;
+alter table public.conversations
+  add constraint conversations_kind_check check (
+    (kind = 'room' and direct_key is null)
+    or (kind = 'direct' and direct_key is not null)
+  );
+
+-- One DM per pair of people: the key is both user ids in sorted order.
+create unique index if not exists conversations_direct_key_idx
+  on public.conversations (direct_key)
+  where direct_key is not null;
+
+create or replace function public.get_or_create_direct_conversation(p_other_user uuid)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_key text;
+  v_conversation_id bigint;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_other_user is null or p_other_user = v_uid then
+    raise exception 'Choose someone else to message';
+  end if;
+
+  -- People can only start DMs with someone they already share a room with.
+  if not exists (
+    select 1
+    from public.conversation_members mine
+    join public.conversation_members theirs
+      on theirs.conversation_id = mine.conversation_id
+     and theirs.user_id = p_other_user
+    where mine.user_id = v_uid
+  ) then
+    raise exception 'You can only message people you share a room with';
+  end if;
+
+  v_key := least(v_uid::text, p_other_user::text) || ':' || greatest(v_uid::text, p_other_user::text);
+
+  insert into public.conversations(name, description, created_by, kind, direct_key)
+  values ('Direct message', '', v_uid, 'direct', v_key)
+  on conflict (direct_key) where direct_key is not null do nothing
+  returning id into v_conversation_id;
+
+  if v_conversation_id is null then
+    select c.id into v_conversation_id
+    from public.conversations c
+    where c.direct_key = v_key;
+  end if;
+
+  -- Re-adds either side if they had left the conversation.
+  insert into public.conversation_members(conversation_id, user_id, role)
+  values (v_conversation_id, v_uid, 'member'), (v_conversation_id, p_other_user, 'member')
+  on conflict do nothing;
+
+  return v_conversation_id;
+end;
+$$;
+
+grant execute on function public.get_or_create_direct_conversation(uuid) to authenticated;
+
+-- The return shape gains kind and the DM partner, so the function has to be recreated.
+drop function if exists public.sync_conversations_since(timestamptz);
+
+create or replace function public.sync_conversations_since(p_since timestamptz)
+returns table (
+  id bigint,
+  name text,
+  description text,
+  created_at timestamptz,
+  latest_content text,
+  latest_at timestamptz,
+  new_message_count int,
+  changed_at timestamptz,
+  kind text,
+  direct_user_id uuid
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    c.id,
+    case
+      when c.kind = 'direct' then coalesce(nullif(trim(partner.full_name), ''), 'Direct message')
+      else c.name
+    end,
+    c.description,
+    c.created_at,
+    case when latest.deleted_at is not null then 'Message deleted' else latest.content end,
+    latest.created_at,
+    coalesce(fresh.message_count, 0),
+    greatest(c.created_at, c.updated_at, m.joined_at, coalesce(c.last_message_at, c.created_at)),
+    c.kind,
+    partner.id
+  from public.conversation_members m
+  join public.conversations c on c.id = m.conversation_id
+  left join lateral (
+    select p.id, p.full_name
+    from public.profiles p
+    where c.kind = 'direct'
+      and p.id::text in (split_part(c.direct_key, ':', 1), split_part(c.direct_key, ':', 2))
+      and p.id <> v_uid
+    limit 1
+  ) partner on true
+  left join lateral (
+    select msg.content, msg.deleted_at, msg.created_at
+    from public.messages msg
+    where msg.conversation_id = c.id
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+    order by msg.created_at desc
+    limit 1
+  ) latest on true
+  left join lateral (
+    select count(*)::int as message_count
+    from public.messages msg
+    where msg.conversation_id = c.id
+      and msg.created_at > p_since
+      and msg.sender_id <> v_uid
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+  ) fresh on true
+  where m.user_id = v_uid
+    and greatest(c.created_at, c.updated_at, m.joined_at, coalesce(c.last_message_at, c.created_at)) > p_since;
+end;
+$$;
+
+grant execute on function public.sync_conversations_since(timestamptz) to authenticated;
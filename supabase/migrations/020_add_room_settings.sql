@@ -0,0 +1,371 @@
+alter table public.conversations
+  add column if not exists archived_at timestamptz,
+  add column if not exists archived_by uuid references public.profiles(id) on delete set null;
+
+create table if not exists public.conversation_events (
+  id bigint generated always as identity primary key,
+  conversation_id bigint references public.conversations(id) on delete set null,
+  conversation_name text not null,
+  actor_id uuid references public.profiles(id) on delete set null,
+  action text not null check (
+    action in ('created', 'renamed', 'description_changed', 'archived', 'unarchived', 'deleted')
+  ),
+  previous_value text,
+  new_value text,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists conversation_events_conversation_idx
+  on public.conversation_events (conversation_id, created_at desc);
+
+alter table public.conversation_events enable row level security;
+
+drop policy if exists "conversation_events_select_member" on public.conversation_events;
+create policy "conversation_events_select_member"
+  on public.conversation_events
+  for select
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'guest')));
+
+grant select on public.conversation_events to authenticated;
+
+-- Archiving bumps updated_at too, so delta sync picks it up.
+create or replace function public.touch_conversation_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.name is distinct from old.name
+    or new.description is distinct from old.description
+    or new.archived_at is distinct from old.archived_at then
+    new.updated_at := timezone('utc', now());
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.record_conversation_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.conversation_events(conversation_id, conversation_name, actor_id, action, new_value)
+    values (new.id, new.name, auth.uid(), 'created', new.name);
+    return null;
+  end if;
+
+  if tg_op = 'DELETE' then
+    insert into public.conversation_events(conversation_id, conversation_name, actor_id, action, previous_value)
+    values (null, old.name, auth.uid(), 'deleted', old.name);
+    return null;
+  end if;
+
+  if new.name is distinct from old.name then
+    insert into public.conversation_events(conversation_id, conversation_name, actor_id, action, previous_value, new_value)
+    values (new.id, new.name, auth.uid(), 'renamed', old.name, new.name);
+  end if;
+
+  if new.description is distinct from old.description then
+    insert into public.conversation_events(conversation_id, conversation_name, actor_id, action, previous_value, new_value)
+    values (new.id, new.name, auth.uid(), 'description_changed', old.description, new.description);
+  end if;
+
+  if new.archived_at is distinct from old.archived_at then
+    insert into public.conversation_events(conversation_id, conversation_name, actor_id, action)
+    values (
+      new.id,
+      new.name,
+      auth.uid(),
+      case when new.archived_at is null then 'unarchived' else 'archived' end
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists conversations_after_change_record_event on public.conversations;
+create trigger conversations_after_change_record_event
+  after insert or update or delete on public.conversations
+  for each row
+  execute function public.record_conversation_event();
+
+-- Archived rooms are read-only.
+drop policy if exists "messages_insert_member_sender" on public.messages;
+create policy "messages_insert_member_sender"
+  on public.messages
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = sender_id
+    and exists (
+      select 1
+      from public.conversation_members m
+      join public.conversations c on c.id = m.conversation_id
+      where m.conversation_id = messages.conversation_id
+        and m.user_id = (select auth.uid())
+        and c.archived_at is null
+    )
+  );
+
+drop policy if exists "call_requests_insert_requester_member" on public.call_requests;
+create policy "call_requests_insert_requester_member"
+  on public.call_requests
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = requester_id
+    and (select public.has_conversation_role(conversation_id, 'member'))
+    and not exists (
+      select 1
+      from public.conversations c
+      where c.id = call_requests.conversation_id
+        and c.archived_at is not null
+    )
+  );
+
+create or replace function public.update_room_settings(
+  p_conversation_id bigint,
+  p_name text,
+  p_description text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.has_conversation_role(p_conversation_id, 'admin') then
+    raise exception 'Only room admins can change settings';
+  end if;
+
+  if nullif(trim(p_name), '') is null then
+    raise exception 'Room name is required';
+  end if;
+
+  update public.conversations
+  set name = left(trim(p_name), 80),
+      description = left(coalesce(trim(p_description), ''), 280)
+  where id = p_conversation_id
+    and kind = 'room';
+
+  if not found then
+    raise exception 'Room not found';
+  end if;
+end;
+$$;
+
+grant execute on function public.update_room_settings(bigint, text, text) to authenticated;
+
+create or replace function public.set_room_archived(
+  p_conversation_id bigint,
+  p_archived boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.has_conversation_role(p_conversation_id, 'admin') then
+    raise exception 'Only room admins can archive rooms';
+  end if;
+
+  update public.conversations
+  set archived_at = case when p_archived then coalesce(archived_at, timezone('utc', now())) end,
+      archived_by = case when p_archived then coalesce(archived_by, v_uid) end
+  where id = p_conversation_id
+    and kind = 'room';
+
+  if not found then
+    raise exception 'Room not found';
+  end if;
+
+  if p_archived then
+    update public.call_requests
+    set status = case when status = 'pending' then 'cancelled' else 'ended' end,
+        updated_at = timezone('utc', now())
+    where conversation_id = p_conversation_id
+      and status in ('pending', 'accepted');
+  end if;
+end;
+$$;
+
+grant execute on function public.set_room_archived(bigint, boolean) to authenticated;
+
+create or replace function public.delete_room(p_conversation_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (
+    select 1
+    from public.conversation_members m
+    join public.conversations c on c.id = m.conversation_id
+    where m.conversation_id = p_conversation_id
+      and m.user_id = auth.uid()
+      and m.role = 'owner'
+      and c.kind = 'room'
+  ) then
+    raise exception 'Only the room owner can delete it';
+  end if;
+
+  delete from public.conversations
+  where id = p_conversation_id;
+end;
+$$;
+
+grant execute on function public.delete_room(bigint) to authenticated;
+
+create or replace function public.list_room_events(p_conversation_id bigint)
+returns table (
+  id bigint,
+  actor_name text,
+  action text,
+  previous_value text,
+  new_value text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.has_conversation_role(p_conversation_id, 'guest') then
+    raise exception 'Not a member of this room';
+  end if;
+
+  return query
+  select
+    e.id,
+    coalesce(nullif(trim(p.full_name), ''), 'Someone'),
+    e.action,
+    e.previous_value,
+    e.new_value,
+    e.created_at
+  from public.conversation_events e
+  left join public.profiles p on p.id = e.actor_id
+  where e.conversation_id = p_conversation_id
+  order by e.created_at desc
+  limit 50;
+end;
+$$;
+
+grant execute on function public.list_room_events(bigint) to authenticated;
+
+-- The return shape gains archived_at, so the function has to be recreated.
+drop function if exists public.sync_conversations_since(timestamptz);
+
+create or replace function public.sync_conversations_since(p_since timestamptz)
+returns table (
+  id bigint,
+  name text,
+  description text,
+  created_at timestamptz,
+  latest_content text,
+  latest_at timestamptz,
+  new_message_count int,
+  changed_at timestamptz,
+  kind text,
+  direct_user_id uuid,
+  archived_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    c.id,
+    case
+      when c.kind = 'direct' then coalesce(nullif(trim(partner.full_name), ''), 'Direct message')
+      else c.name
+    end,
+    c.description,
+    c.created_at,
+    case when latest.deleted_at is not null then 'Message deleted' else latest.content end,
+    latest.created_at,
+    coalesce(fresh.message_count, 0),
+    greatest(c.created_at, c.updated_at, m.joined_at, coalesce(c.last_message_at, c.created_at)),
+    c.kind,
+    partner.id,
+    c.archived_at
+  from public.conversation_members m
+  join public.conversations c on c.id = m.conversation_id
+  left join lateral (
+    select p.id, p.full_name
+    from public.profiles p
+    where c.kind = 'direct'
+      and p.id::text in (split_part(c.direct_key, ':', 1), split_part(c.direct_key, ':', 2))
+      and p.id <> v_uid
+    limit 1
+  ) partner on true
+  left join lateral (
+    select msg.content, msg.deleted_at, msg.created_at
+    from public.messages msg
+    where msg.conversation_id = c.id
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+    order by msg.created_at desc
+    limit 1
+  ) latest on true
+  left join lateral (
+    select count(*)::int as message_count
+    from public.messages msg
+    where msg.conversation_id = c.id
+      and msg.created_at > p_since
+      and msg.sender_id <> v_uid
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+  ) fresh on true
+  where m.user_id = v_uid
+    and greatest(c.created_at, c.updated_at, m.joined_at, coalesce(c.last_message_at, c.created_at)) > p_since;
+end;
+$$;
+
+grant execute on function public.sync_conversations_since(timestamptz) to authenticated;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'conversations'
+  ) then
+    alter publication supabase_realtime add table public.conversations;
+  end if;
+end $$;
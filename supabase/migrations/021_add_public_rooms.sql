@@ -0,0 +1,364 @@
+alter table public.conversations
+  add column if not exists visibility text not null default 'private';
+
+alter table public.conversations
+  drop constraint if exists conversations_visibility_check;
+alter table public.conversations
+  add constraint conversations_visibility_check check (
+    visibility in ('private', 'public')
+    and (kind = 'room' or visibility = 'private')
+  );
+
+create index if not exists conversations_public_idx
+  on public.conversations (last_message_at desc)
+  where visibility = 'public' and archived_at is null;
+
+alter table public.conversation_events
+  drop constraint if exists conversation_events_action_check;
+alter table public.conversation_events
+  add constraint conversation_events_action_check check (
+    action in (
+      'created',
+      'renamed',
+      'description_changed',
+      'visibility_changed',
+      'archived',
+      'unarchived',
+      'deleted'
+    )
+  );
+
+create or replace function public.touch_conversation_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.name is distinct from old.name
+    or new.description is distinct from old.description
+    or new.visibility is distinct from old.visibility
+    or new.archived_at is distinct from old.archived_at then
+    new.updated_at := timezone('utc', now());
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.record_conversation_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.conversation_events(conversation_id, conversation_name, actor_id, action, new_value)
+    values (new.id, new.name, auth.uid(), 'created', new.name);
+    return null;
+  end if;
+
+  if tg_op = 'DELETE' then
+    insert into public.conversation_events(conversation_id, conversation_name, actor_id, action, previous_value)
+    values (null, old.name, auth.uid(), 'deleted', old.name);
+    return null;
+  end if;
+
+  if new.name is distinct from old.name then
+    insert into public.conversation_events(conversation_id, conversation_name, actor_id, action, previous_value, new_value)
+    values (new.id, new.name, auth.uid(), 'renamed', old.name, new.name);
+  end if;
+
+  if new.description is distinct from old.description then
+    insert into public.conversation_events(conversation_id, conversation_name, actor_id, action, previous_value, new_value)
+    values (new.id, new.name, auth.uid(), 'description_changed', old.description, new.description);
+  end if;
+
+  if new.visibility is distinct from old.visibility then
+    insert into public.conversation_events(conversation_id, conversation_name, actor_id, action, previous_value, new_value)
+    values (new.id, new.name, auth.uid(), 'visibility_changed', old.visibility, new.visibility);
+  end if;
+
+  if new.archived_at is distinct from old.archived_at then
+    insert into public.conversation_events(conversation_id, conversation_name, actor_id, action)
+    values (
+      new.id,
+      new.name,
+      auth.uid(),
+      case when new.archived_at is null then 'unarchived' else 'archived' end
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+-- The visibility parameter is new, so the old two-argument version is replaced.
+drop function if exists public.create_conversation_room(text, text);
+
+create or replace function public.create_conversation_room(
+  p_name text,
+  p_description text default '',
+  p_visibility text default 'private'
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_conversation_id bigint;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if coalesce(p_visibility, 'private') not in ('private', 'public') then
+    raise exception 'Unknown visibility';
+  end if;
+
+  insert into public.conversations(name, description, created_by, visibility)
+  values (
+    coalesce(nullif(trim(p_name), ''), 'Untitled Room'),
+    coalesce(p_description, ''),
+    v_uid,
+    coalesce(p_visibility, 'private')
+  )
+  returning id into v_conversation_id;
+
+  insert into public.conversation_members(conversation_id, user_id, role)
+  values (v_conversation_id, v_uid, 'owner')
+  on conflict do nothing;
+
+  return v_conversation_id;
+end;
+$$;
+
+grant execute on function public.create_conversation_room(text, text, text) to authenticated;
+
+drop function if exists public.update_room_settings(bigint, text, text);
+
+create or replace function public.update_room_settings(
+  p_conversation_id bigint,
+  p_name text,
+  p_description text,
+  p_visibility text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.has_conversation_role(p_conversation_id, 'admin') then
+    raise exception 'Only room admins can change settings';
+  end if;
+
+  if nullif(trim(p_name), '') is null then
+    raise exception 'Room name is required';
+  end if;
+
+  if p_visibility is not null and p_visibility not in ('private', 'public') then
+    raise exception 'Unknown visibility';
+  end if;
+
+  update public.conversations
+  set name = left(trim(p_name), 80),
+      description = left(coalesce(trim(p_description), ''), 280),
+      visibility = coalesce(p_visibility, visibility)
+  where id = p_conversation_id
+    and kind = 'room';
+
+  if not found then
+    raise exception 'Room not found';
+  end if;
+end;
+$$;
+
+grant execute on function public.update_room_settings(bigint, text, text, text) to authenticated;
+
+create or replace function public.list_public_rooms(
+  p_query text default null,
+  p_limit int default 50
+)
+returns table (
+  id bigint,
+  name text,
+  description text,
+  member_count int,
+  last_message_at timestamptz,
+  created_at timestamptz,
+  is_member boolean
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_needle text;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_needle := nullif(trim(coalesce(p_query, '')), '');
+
+  return query
+  select
+    c.id,
+    c.name,
+    c.description,
+    (select count(*)::int from public.conversation_members m where m.conversation_id = c.id),
+    c.last_message_at,
+    c.created_at,
+    exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = c.id
+        and m.user_id = v_uid
+    )
+  from public.conversations c
+  where c.visibility = 'public'
+    and c.archived_at is null
+    and (
+      v_needle is null
+      or c.name ilike '%' || v_needle || '%'
+      or c.description ilike '%' || v_needle || '%'
+    )
+  order by coalesce(c.last_message_at, c.created_at) desc
+  limit least(greatest(coalesce(p_limit, 50), 1), 200);
+end;
+$$;
+
+grant execute on function public.list_public_rooms(text, int) to authenticated;
+
+create or replace function public.join_public_room(p_conversation_id bigint)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (
+    select 1
+    from public.conversations c
+    where c.id = p_conversation_id
+      and c.visibility = 'public'
+      and c.archived_at is null
+  ) then
+    raise exception 'Room is not open to join';
+  end if;
+
+  if exists (
+    select 1
+    from public.conversation_bans b
+    where b.conversation_id = p_conversation_id
+      and b.user_id = v_uid
+  ) then
+    raise exception 'You have been banned from this room';
+  end if;
+
+  insert into public.conversation_members(conversation_id, user_id)
+  values (p_conversation_id, v_uid)
+  on conflict do nothing;
+
+  return p_conversation_id;
+end;
+$$;
+
+grant execute on function public.join_public_room(bigint) to authenticated;
+
+-- The return shape gains visibility, so the function has to be recreated.
+drop function if exists public.sync_conversations_since(timestamptz);
+
+create or replace function public.sync_conversations_since(p_since timestamptz)
+returns table (
+  id bigint,
+  name text,
+  description text,
+  created_at timestamptz,
+  latest_content text,
+  latest_at timestamptz,
+  new_message_count int,
+  changed_at timestamptz,
+  kind text,
+  direct_user_id uuid,
+  archived_at timestamptz,
+  visibility text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    c.id,
+    case
+      when c.kind = 'direct' then coalesce(nullif(trim(partner.full_name), ''), 'Direct message')
+      else c.name
+    end,
+    c.description,
+    c.created_at,
+    case when latest.deleted_at is not null then 'Message deleted' else latest.content end,
+    latest.created_at,
+    coalesce(fresh.message_count, 0),
+    greatest(c.created_at, c.updated_at, m.joined_at, coalesce(c.last_message_at, c.created_at)),
+    c.kind,
+    partner.id,
+    c.archived_at,
+    c.visibility
+  from public.conversation_members m
+  join public.conversations c on c.id = m.conversation_id
+  left join lateral (
+    select p.id, p.full_name
+    from public.profiles p
+    where c.kind = 'direct'
+      and p.id::text in (split_part(c.direct_key, ':', 1), split_part(c.direct_key, ':', 2))
+      and p.id <> v_uid
+    limit 1
+  ) partner on true
+  left join lateral (
+    select msg.content, msg.deleted_at, msg.created_at
+    from public.messages msg
+    where msg.conversation_id = c.id
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+    order by msg.created_at desc
+    limit 1
+  ) latest on true
+  left join lateral (
+    select count(*)::int as message_count
+    from public.messages msg
+    where msg.conversation_id = c.id
+      and msg.created_at > p_since
+      and msg.sender_id <> v_uid
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+  ) fresh on true
+  where m.user_id = v_uid
+    and greatest(c.created_at, c.updated_at, m.joined_at, coalesce(c.last_message_at, c.created_at)) > p_since;
+end;
+$$;
+
+grant execute on function public.sync_conversations_since(timestamptz) to authenticated;
@@ -0,0 +1,653 @@
+create table if not exists public.workspaces (
+  id bigint generated always as identity primary key,
+  name text not null check (char_length(trim(name)) > 0 and char_length(name) <= 80),
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create table if not exists public.workspace_members (
+  workspace_id bigint not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  role text not null default 'member' check (role in ('owner', 'member')),
+  joined_at timestamptz not null default timezone('utc', now()),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_idx
+  on public.workspace_members (user_id, workspace_id);
+
+alter table public.conversations
+  add column if not exists workspace_id bigint references public.workspaces(id) on delete cascade;
+
+create index if not exists conversations_workspace_idx
+  on public.conversations (workspace_id, kind);
+
+-- Backfill: everyone gets their own workspace, exactly as create_signup_workspace does for new
+-- signups. A matching team name is not proof of being on the same team; shared rooms bring
+-- people together below.
+insert into public.workspaces(name, created_by)
+select
+  left(
+    coalesce(
+      nullif(trim(p.team_name), ''),
+      coalesce(nullif(trim(p.full_name), ''), 'My') || '''s workspace'
+    ),
+    80
+  ),
+  p.id
+from public.profiles p
+where not exists (select 1 from public.workspaces w where w.created_by = p.id);
+
+insert into public.workspace_members(workspace_id, user_id, role)
+select w.id, w.created_by, 'owner'
+from public.workspaces w
+where w.created_by is not null
+on conflict do nothing;
+
+update public.conversations c
+set workspace_id = coalesce(
+  (
+    select wm.workspace_id
+    from public.workspace_members wm
+    where wm.user_id = c.created_by
+    order by wm.joined_at
+    limit 1
+  ),
+  (
+    select wm.workspace_id
+    from public.conversation_members m
+    join public.workspace_members wm on wm.user_id = m.user_id
+    where m.conversation_id = c.id
+    order by m.joined_at
+    limit 1
+  )
+)
+where c.workspace_id is null;
+
+do $$
+declare
+  v_workspace_id bigint;
+begin
+  if exists (select 1 from public.conversations where workspace_id is null) then
+    insert into public.workspaces(name) values ('General') returning id into v_workspace_id;
+    update public.conversations set workspace_id = v_workspace_id where workspace_id is null;
+  end if;
+end $$;
+
+-- Everyone already in a room keeps access to it through its workspace.
+insert into public.workspace_members(workspace_id, user_id)
+select distinct c.workspace_id, m.user_id
+from public.conversation_members m
+join public.conversations c on c.id = m.conversation_id
+on conflict do nothing;
+
+alter table public.conversations
+  alter column workspace_id set not null;
+
+-- DMs are per workspace now.
+drop index if exists public.conversations_direct_key_idx;
+create unique index if not exists conversations_workspace_direct_key_idx
+  on public.conversations (workspace_id, direct_key)
+  where direct_key is not null;
+
+create or replace function public.is_workspace_member(p_workspace_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = p_workspace_id
+      and wm.user_id = auth.uid()
+  );
+$$;
+
+grant execute on function public.is_workspace_member(bigint) to authenticated;
+
+-- Room roles only count while the caller still belongs to the room's workspace.
+create or replace function public.has_conversation_role(
+  p_conversation_id bigint,
+  p_min_role text
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.conversation_members m
+    join public.conversations c on c.id = m.conversation_id
+    join public.workspace_members wm
+      on wm.workspace_id = c.workspace_id
+     and wm.user_id = m.user_id
+    where m.conversation_id = p_conversation_id
+      and m.user_id = auth.uid()
+      and public.conversation_role_rank(m.role) >= public.conversation_role_rank(p_min_role)
+  );
+$$;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+
+drop policy if exists "workspaces_select_member" on public.workspaces;
+create policy "workspaces_select_member"
+  on public.workspaces
+  for select
+  to authenticated
+  using ((select public.is_workspace_member(id)));
+
+drop policy if exists "workspace_members_select_co_member" on public.workspace_members;
+create policy "workspace_members_select_co_member"
+  on public.workspace_members
+  for select
+  to authenticated
+  using ((select public.is_workspace_member(workspace_id)));
+
+grant select on public.workspaces to authenticated;
+grant select on public.workspace_members to authenticated;
+
+drop policy if exists "conversations_select_member" on public.conversations;
+create policy "conversations_select_member"
+  on public.conversations
+  for select
+  to authenticated
+  using ((select public.has_conversation_role(id, 'guest')));
+
+drop policy if exists "conversations_insert_authenticated" on public.conversations;
+create policy "conversations_insert_authenticated"
+  on public.conversations
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = created_by
+    and (select public.is_workspace_member(workspace_id))
+  );
+
+drop policy if exists "messages_select_member" on public.messages;
+create policy "messages_select_member"
+  on public.messages
+  for select
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'guest')));
+
+drop policy if exists "messages_insert_member_sender" on public.messages;
+create policy "messages_insert_member_sender"
+  on public.messages
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = sender_id
+    and (select public.has_conversation_role(conversation_id, 'guest'))
+    and not exists (
+      select 1
+      from public.conversations c
+      where c.id = messages.conversation_id
+        and c.archived_at is not null
+    )
+  );
+
+drop policy if exists "call_requests_select_member" on public.call_requests;
+create policy "call_requests_select_member"
+  on public.call_requests
+  for select
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'guest')));
+
+drop policy if exists "call_requests_update_member" on public.call_requests;
+create policy "call_requests_update_member"
+  on public.call_requests
+  for update
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'guest')))
+  with check (
+    (select public.has_conversation_role(conversation_id, 'guest'))
+    and (
+      requester_id = (select auth.uid())
+      or accepted_by = (select auth.uid())
+      or (status in ('accepted', 'rejected') and accepted_by = (select auth.uid()))
+    )
+  );
+
+-- Joining a room (invite, DM, directory) also makes you a member of its workspace.
+create or replace function public.ensure_workspace_membership()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.workspace_members(workspace_id, user_id)
+  select c.workspace_id, new.user_id
+  from public.conversations c
+  where c.id = new.conversation_id
+  on conflict do nothing;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists conversation_members_after_insert_workspace on public.conversation_members;
+create trigger conversation_members_after_insert_workspace
+  after insert on public.conversation_members
+  for each row
+  execute function public.ensure_workspace_membership();
+
+-- New signups get their own workspace named after the team they entered; colleagues join it by
+-- invite. Keep the naming in sync with the backfill above.
+create or replace function public.create_signup_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_workspace_id bigint;
+begin
+  insert into public.workspaces(name, created_by)
+  values (
+    left(
+      coalesce(
+        nullif(trim(new.team_name), ''),
+        coalesce(nullif(trim(new.full_name), ''), 'My') || '''s workspace'
+      ),
+      80
+    ),
+    new.id
+  )
+  returning id into v_workspace_id;
+
+  insert into public.workspace_members(workspace_id, user_id, role)
+  values (v_workspace_id, new.id, 'owner');
+
+  return null;
+end;
+$$;
+
+drop trigger if exists profiles_after_insert_workspace on public.profiles;
+create trigger profiles_after_insert_workspace
+  after insert on public.profiles
+  for each row
+  execute function public.create_signup_workspace();
+
+create or replace function public.create_workspace(p_name text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_workspace_id bigint;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if nullif(trim(p_name), '') is null then
+    raise exception 'Workspace name is required';
+  end if;
+
+  insert into public.workspaces(name, created_by)
+  values (left(trim(p_name), 80), v_uid)
+  returning id into v_workspace_id;
+
+  insert into public.workspace_members(workspace_id, user_id, role)
+  values (v_workspace_id, v_uid, 'owner');
+
+  return v_workspace_id;
+end;
+$$;
+
+grant execute on function public.create_workspace(text) to authenticated;
+
+create or replace function public.list_my_workspaces()
+returns table (
+  id bigint,
+  name text,
+  role text,
+  member_count int,
+  joined_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    w.id,
+    w.name,
+    mine.role,
+    (select count(*)::int from public.workspace_members wm where wm.workspace_id = w.id),
+    mine.joined_at
+  from public.workspace_members mine
+  join public.workspaces w on w.id = mine.workspace_id
+  where mine.user_id = v_uid
+  order by mine.joined_at, w.id;
+end;
+$$;
+
+grant execute on function public.list_my_workspaces() to authenticated;
+
+drop function if exists public.create_conversation_room(text, text, text);
+
+create or replace function public.create_conversation_room(
+  p_workspace_id bigint,
+  p_name text,
+  p_description text default '',
+  p_visibility text default 'private'
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_conversation_id bigint;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'Not a member of this workspace';
+  end if;
+
+  if coalesce(p_visibility, 'private') not in ('private', 'public') then
+    raise exception 'Unknown visibility';
+  end if;
+
+  insert into public.conversations(workspace_id, name, description, created_by, visibility)
+  values (
+    p_workspace_id,
+    coalesce(nullif(trim(p_name), ''), 'Untitled Room'),
+    coalesce(p_description, ''),
+    v_uid,
+    coalesce(p_visibility, 'private')
+  )
+  returning id into v_conversation_id;
+
+  insert into public.conversation_members(conversation_id, user_id, role)
+  values (v_conversation_id, v_uid, 'owner')
+  on conflict do nothing;
+
+  return v_conversation_id;
+end;
+$$;
+
+grant execute on function public.create_conversation_room(bigint, text, text, text) to authenticated;
+
+drop function if exists public.get_or_create_direct_conversation(uuid);
+
+create or replace function public.get_or_create_direct_conversation(
+  p_workspace_id bigint,
+  p_other_user uuid
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_key text;
+  v_conversation_id bigint;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_other_user is null or p_other_user = v_uid then
+    raise exception 'Choose someone else to message';
+  end if;
+
+  -- People can only start DMs with someone they share a room with in this workspace.
+  if not exists (
+    select 1
+    from public.conversation_members mine
+    join public.conversations c
+      on c.id = mine.conversation_id
+     and c.workspace_id = p_workspace_id
+    join public.conversation_members theirs
+      on theirs.conversation_id = mine.conversation_id
+     and theirs.user_id = p_other_user
+    where mine.user_id = v_uid
+  ) then
+    raise exception 'You can only message people you share a room with';
+  end if;
+
+  v_key := least(v_uid::text, p_other_user::text) || ':' || greatest(v_uid::text, p_other_user::text);
+
+  insert into public.conversations(workspace_id, name, description, created_by, kind, direct_key)
+  values (p_workspace_id, 'Direct message', '', v_uid, 'direct', v_key)
+  on conflict (workspace_id, direct_key) where direct_key is not null do nothing
+  returning id into v_conversation_id;
+
+  if v_conversation_id is null then
+    select c.id into v_conversation_id
+    from public.conversations c
+    where c.workspace_id = p_workspace_id
+      and c.direct_key = v_key;
+  end if;
+
+  -- Re-adds either side if they had left the conversation.
+  insert into public.conversation_members(conversation_id, user_id, role)
+  values (v_conversation_id, v_uid, 'member'), (v_conversation_id, p_other_user, 'member')
+  on conflict do nothing;
+
+  return v_conversation_id;
+end;
+$$;
+
+grant execute on function public.get_or_create_direct_conversation(bigint, uuid) to authenticated;
+
+drop function if exists public.list_public_rooms(text, int);
+
+create or replace function public.list_public_rooms(
+  p_workspace_id bigint,
+  p_query text default null,
+  p_limit int default 50
+)
+returns table (
+  id bigint,
+  name text,
+  description text,
+  member_count int,
+  last_message_at timestamptz,
+  created_at timestamptz,
+  is_member boolean
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_needle text;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'Not a member of this workspace';
+  end if;
+
+  v_needle := nullif(trim(coalesce(p_query, '')), '');
+
+  return query
+  select
+    c.id,
+    c.name,
+    c.description,
+    (select count(*)::int from public.conversation_members m where m.conversation_id = c.id),
+    c.last_message_at,
+    c.created_at,
+    exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = c.id
+        and m.user_id = v_uid
+    )
+  from public.conversations c
+  where c.workspace_id = p_workspace_id
+    and c.visibility = 'public'
+    and c.archived_at is null
+    and (
+      v_needle is null
+      or c.name ilike '%' || v_needle || '%'
+      or c.description ilike '%' || v_needle || '%'
+    )
+  order by coalesce(c.last_message_at, c.created_at) desc
+  limit least(greatest(coalesce(p_limit, 50), 1), 200);
+end;
+$$;
+
+grant execute on function public.list_public_rooms(bigint, text, int) to authenticated;
+
+create or replace function public.join_public_room(p_conversation_id bigint)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (
+    select 1
+    from public.conversations c
+    where c.id = p_conversation_id
+      and c.visibility = 'public'
+      and c.archived_at is null
+      and public.is_workspace_member(c.workspace_id)
+  ) then
+    raise exception 'Room is not open to join';
+  end if;
+
+  if exists (
+    select 1
+    from public.conversation_bans b
+    where b.conversation_id = p_conversation_id
+      and b.user_id = v_uid
+  ) then
+    raise exception 'You have been banned from this room';
+  end if;
+
+  insert into public.conversation_members(conversation_id, user_id)
+  values (p_conversation_id, v_uid)
+  on conflict do nothing;
+
+  return p_conversation_id;
+end;
+$$;
+
+-- The return shape gains workspace_id, so the function has to be recreated.
+drop function if exists public.sync_conversations_since(timestamptz);
+
+create or replace function public.sync_conversations_since(p_since timestamptz)
+returns table (
+  id bigint,
+  name text,
+  description text,
+  created_at timestamptz,
+  latest_content text,
+  latest_at timestamptz,
+  new_message_count int,
+  changed_at timestamptz,
+  kind text,
+  direct_user_id uuid,
+  archived_at timestamptz,
+  visibility text,
+  workspace_id bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    c.id,
+    case
+      when c.kind = 'direct' then coalesce(nullif(trim(partner.full_name), ''), 'Direct message')
+      else c.name
+    end,
+    c.description,
+    c.created_at,
+    case when latest.deleted_at is not null then 'Message deleted' else latest.content end,
+    latest.created_at,
+    coalesce(fresh.message_count, 0),
+    greatest(c.created_at, c.updated_at, m.joined_at, coalesce(c.last_message_at, c.created_at)),
+    c.kind,
+    partner.id,
+    c.archived_at,
+    c.visibility,
+    c.workspace_id
+  from public.conversation_members m
+  join public.conversations c on c.id = m.conversation_id
+  join public.workspace_members wm
+    on wm.workspace_id = c.workspace_id
+   and wm.user_id = m.user_id
+  left join lateral (
+    select p.id, p.full_name
+    from public.profiles p
+    where c.kind = 'direct'
+      and p.id::text in (split_part(c.direct_key, ':', 1), split_part(c.direct_key, ':', 2))
+      and p.id <> v_uid
+    limit 1
+  ) partner on true
+  left join lateral (
+    select msg.content, msg.deleted_at, msg.created_at
+    from public.messages msg
+    where msg.conversation_id = c.id
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+    order by msg.created_at desc
+    limit 1
+  ) latest on true
+  left join lateral (
+    select count(*)::int as message_count
+    from public.messages msg
+    where msg.conversation_id = c.id
+      and msg.created_at > p_since
+      and msg.sender_id <> v_uid
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+  ) fresh on true
+  where m.user_id = v_uid
+    and greatest(c.created_at, c.updated_at, m.joined_at, coalesce(c.last_message_at, c.created_at)) > p_since;
+end;
+$$;
+
+grant execute on function public.sync_conversations_since(timestamptz) to authenticated;
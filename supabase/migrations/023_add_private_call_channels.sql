@@ -0,0 +1,41 @@
+-- Call signalling moves from one global broadcast channel to a private
+-- channel per call, topic "call:<call_requests.id>". Realtime checks these
+-- policies when a client joins the channel and when it sends a message.
+create or replace function public.can_access_call_channel(p_topic text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.call_requests cr
+    where p_topic ~ '^call:[0-9]+$'
+      and cr.id = substring(p_topic from 6)::bigint
+      and auth.uid() in (cr.requester_id, cr.accepted_by)
+      and public.has_conversation_role(cr.conversation_id, 'guest')
+  );
+$$;
+
+grant execute on function public.can_access_call_channel(text) to authenticated;
+
+drop policy if exists "call_channel_select_participant" on realtime.messages;
+create policy "call_channel_select_participant"
+  on realtime.messages
+  for select
+  to authenticated
+  using (
+    realtime.messages.extension = 'broadcast'
+    and (select public.can_access_call_channel(realtime.topic()))
+  );
+
+drop policy if exists "call_channel_insert_participant" on realtime.messages;
+create policy "call_channel_insert_participant"
+  on realtime.messages
+  for insert
+  to authenticated
+  with check (
+    realtime.messages.extension = 'broadcast'
+    and (select public.can_access_call_channel(realtime.topic()))
+  );
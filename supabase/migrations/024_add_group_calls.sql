@@ -0,0 +1,276 @@
+-- Calls become small mesh calls: everyone in call_participants connects to
+-- everyone else. A person can leave and rejoin, so each stint is its own row.
+create table if not exists public.call_participants (
+  id bigint generated always as identity primary key,
+  call_id bigint not null references public.call_requests(id) on delete cascade,
+  conversation_id bigint not null references public.conversations(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  joined_at timestamptz not null default timezone('utc', now()),
+  left_at timestamptz,
+  constraint call_participants_left_after_join_check check (left_at is null or left_at >= joined_at)
+);
+
+create unique index if not exists call_participants_active_idx
+  on public.call_participants (call_id, user_id)
+  where left_at is null;
+
+create index if not exists call_participants_user_idx
+  on public.call_participants (user_id, left_at);
+
+-- Calls that are live right now keep their two existing participants.
+insert into public.call_participants(call_id, conversation_id, user_id, joined_at)
+select cr.id, cr.conversation_id, people.user_id, cr.updated_at
+from public.call_requests cr
+cross join lateral (values (cr.requester_id), (cr.accepted_by)) as people(user_id)
+where cr.status in ('pending', 'accepted')
+  and people.user_id is not null
+on conflict do nothing;
+
+alter table public.call_participants enable row level security;
+
+drop policy if exists "call_participants_select_member" on public.call_participants;
+create policy "call_participants_select_member"
+  on public.call_participants
+  for select
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'guest')));
+
+grant select on public.call_participants to authenticated;
+
+-- Keep in sync with maxCallParticipants in App.tsx.
+create or replace function public.max_call_participants()
+returns int
+language sql
+immutable
+as $$
+  select 6;
+$$;
+
+create or replace function public.add_call_requester()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.call_participants(call_id, conversation_id, user_id)
+  values (new.id, new.conversation_id, new.requester_id)
+  on conflict do nothing;
+  return null;
+end;
+$$;
+
+drop trigger if exists call_requests_after_insert_participant on public.call_requests;
+create trigger call_requests_after_insert_participant
+  after insert on public.call_requests
+  for each row
+  execute function public.add_call_requester();
+
+-- Once a call is over nobody is left in it.
+create or replace function public.close_call_participants()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status in ('ended', 'cancelled', 'rejected') and new.status is distinct from old.status then
+    update public.call_participants
+    set left_at = timezone('utc', now())
+    where call_id = new.id
+      and left_at is null;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists call_requests_after_update_participants on public.call_requests;
+create trigger call_requests_after_update_participants
+  after update of status on public.call_requests
+  for each row
+  execute function public.close_call_participants();
+
+create or replace function public.finish_empty_calls(p_conversation_id bigint)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.call_requests cr
+  set status = case when cr.status = 'pending' then 'cancelled' else 'ended' end,
+      updated_at = timezone('utc', now())
+  where cr.conversation_id = p_conversation_id
+    and cr.status in ('pending', 'accepted')
+    and not exists (
+      select 1
+      from public.call_participants p
+      where p.call_id = cr.id
+        and p.left_at is null
+    );
+$$;
+
+revoke execute on function public.finish_empty_calls(bigint) from public;
+
+-- Leaving or being removed from a room takes you out of its calls.
+create or replace function public.end_member_calls(
+  p_conversation_id bigint,
+  p_user_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.call_participants
+  set left_at = timezone('utc', now())
+  where conversation_id = p_conversation_id
+    and user_id = p_user_id
+    and left_at is null;
+
+  perform public.finish_empty_calls(p_conversation_id);
+end;
+$$;
+
+revoke execute on function public.end_member_calls(bigint, uuid) from public;
+
+create or replace function public.join_call(p_call_id bigint)
+returns table (
+  user_id uuid,
+  joined_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_call record;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select cr.id, cr.conversation_id, cr.requester_id, cr.accepted_by, cr.status
+  into v_call
+  from public.call_requests cr
+  where cr.id = p_call_id
+  for update;
+
+  if not found or v_call.status not in ('pending', 'accepted') then
+    raise exception 'This call has ended';
+  end if;
+
+  if not public.has_conversation_role(v_call.conversation_id, 'member') then
+    raise exception 'Only room members can join calls';
+  end if;
+
+  if not exists (
+    select 1
+    from public.call_participants p
+    where p.call_id = p_call_id
+      and p.user_id = v_uid
+      and p.left_at is null
+  ) then
+    if (
+      select count(*)
+      from public.call_participants p
+      where p.call_id = p_call_id
+        and p.left_at is null
+    ) >= public.max_call_participants() then
+      raise exception 'This call is full';
+    end if;
+
+    insert into public.call_participants(call_id, conversation_id, user_id)
+    values (p_call_id, v_call.conversation_id, v_uid);
+  end if;
+
+  if v_call.status = 'pending' and v_uid <> v_call.requester_id then
+    update public.call_requests
+    set status = 'accepted',
+        accepted_by = coalesce(accepted_by, v_uid),
+        updated_at = timezone('utc', now())
+    where id = p_call_id;
+  end if;
+
+  return query
+  select p.user_id, p.joined_at
+  from public.call_participants p
+  where p.call_id = p_call_id
+    and p.left_at is null
+  order by p.joined_at;
+end;
+$$;
+
+grant execute on function public.join_call(bigint) to authenticated;
+
+-- Returns whether the call is still going without the caller.
+create or replace function public.leave_call(p_call_id bigint)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_conversation_id bigint;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  update public.call_participants
+  set left_at = timezone('utc', now())
+  where call_id = p_call_id
+    and user_id = v_uid
+    and left_at is null
+  returning conversation_id into v_conversation_id;
+
+  if v_conversation_id is not null then
+    perform public.finish_empty_calls(v_conversation_id);
+  end if;
+
+  return exists (
+    select 1
+    from public.call_participants p
+    where p.call_id = p_call_id
+      and p.left_at is null
+  );
+end;
+$$;
+
+grant execute on function public.leave_call(bigint) to authenticated;
+
+-- Only people currently in the call can use its signalling channel.
+create or replace function public.can_access_call_channel(p_topic text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.call_participants p
+    where p_topic ~ '^call:[0-9]+$'
+      and p.call_id = substring(p_topic from 6)::bigint
+      and p.user_id = auth.uid()
+      and p.left_at is null
+      and public.has_conversation_role(p.conversation_id, 'guest')
+  );
+$$;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'call_participants'
+  ) then
+    alter publication supabase_realtime add table public.call_participants;
+  end if;
+end $$;
@@ -0,0 +1,120 @@
+-- Direct conversations are only ever created by get_or_create_direct_conversation.
+drop policy if exists "conversations_insert_authenticated" on public.conversations;
+create policy "conversations_insert_authenticated"
+  on public.conversations
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = created_by
+    and kind = 'room'
+    and direct_key is null
+    and (select public.is_workspace_member(workspace_id))
+  );
+
+-- Room admins can rename a room, but not turn it into someone else's DM or move it.
+create or replace function public.protect_conversation_identity()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.kind is distinct from old.kind
+    or new.direct_key is distinct from old.direct_key
+    or new.workspace_id is distinct from old.workspace_id
+    or new.created_by is distinct from old.created_by then
+    raise exception 'A conversation''s kind, owner and workspace cannot change';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists conversations_before_update_identity on public.conversations;
+create trigger conversations_before_update_identity
+  before update on public.conversations
+  for each row
+  execute function public.protect_conversation_identity();
+
+-- Squatted DMs: created by someone outside the pair, or holding anyone else.
+delete from public.conversations c
+where c.kind = 'direct'
+  and (
+    c.created_by::text not in (split_part(c.direct_key, ':', 1), split_part(c.direct_key, ':', 2))
+    or exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = c.id
+        and m.user_id::text not in (split_part(c.direct_key, ':', 1), split_part(c.direct_key, ':', 2))
+    )
+  );
+
+create or replace function public.get_or_create_direct_conversation(
+  p_workspace_id bigint,
+  p_other_user uuid
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_key text;
+  v_conversation_id bigint;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_other_user is null or p_other_user = v_uid then
+    raise exception 'Choose someone else to message';
+  end if;
+
+  -- People can only start DMs with someone they share a room with in this workspace.
+  if not exists (
+    select 1
+    from public.conversation_members mine
+    join public.conversations c
+      on c.id = mine.conversation_id
+     and c.workspace_id = p_workspace_id
+    join public.conversation_members theirs
+      on theirs.conversation_id = mine.conversation_id
+     and theirs.user_id = p_other_user
+    where mine.user_id = v_uid
+  ) then
+    raise exception 'You can only message people you share a room with';
+  end if;
+
+  v_key := least(v_uid::text, p_other_user::text) || ':' || greatest(v_uid::text, p_other_user::text);
+
+  insert into public.conversations(workspace_id, name, description, created_by, kind, direct_key)
+  values (p_workspace_id, 'Direct message', '', v_uid, 'direct', v_key)
+  on conflict (workspace_id, direct_key) where direct_key is not null do nothing
+  returning id into v_conversation_id;
+
+  if v_conversation_id is null then
+    select c.id into v_conversation_id
+    from public.conversations c
+    where c.workspace_id = p_workspace_id
+      and c.direct_key = v_key
+      and c.created_by in (v_uid, p_other_user)
+    for update;
+
+    -- Never hand out a DM that anyone besides the two of them can read.
+    if v_conversation_id is null or exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = v_conversation_id
+        and m.user_id not in (v_uid, p_other_user)
+    ) then
+      raise exception 'This conversation is not available';
+    end if;
+  end if;
+
+  -- Re-adds either side if they had left the conversation.
+  insert into public.conversation_members(conversation_id, user_id, role)
+  values (v_conversation_id, v_uid, 'member'), (v_conversation_id, p_other_user, 'member')
+  on conflict do nothing;
+
+  return v_conversation_id;
+end;
+$$;
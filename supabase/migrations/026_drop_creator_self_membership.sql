@@ -0,0 +1,4 @@
+-- create_conversation_room adds the creator itself, and every other join goes through an RPC
+-- that checks bans and roles. A direct insert would let a removed or banned creator back in
+-- with any role.
+drop policy if exists "conversation_members_insert_creator_self" on public.conversation_members;
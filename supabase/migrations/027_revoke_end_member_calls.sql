@@ -0,0 +1,3 @@
+-- Supabase grants EXECUTE on new public functions to anon and authenticated directly,
+-- so revoking from public alone still left this callable over the API.
+revoke execute on function public.end_member_calls(bigint, uuid) from public, anon, authenticated;
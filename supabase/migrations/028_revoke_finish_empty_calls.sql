@@ -0,0 +1,2 @@
+-- Only leave_call and end_member_calls finish calls; the API roles must not reach it directly.
+revoke execute on function public.finish_empty_calls(bigint) from public, anon, authenticated;
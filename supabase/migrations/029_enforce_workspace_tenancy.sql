@@ -0,0 +1,768 @@
+-- Joining a room no longer makes you a workspace member: workspaces are joined by invite only.
+drop trigger if exists conversation_members_after_insert_workspace on public.conversation_members;
+drop function if exists public.ensure_workspace_membership();
+
+create table if not exists public.workspace_invites (
+  id bigint generated always as identity primary key,
+  workspace_id bigint not null references public.workspaces(id) on delete cascade,
+  token text not null unique,
+  created_by uuid not null references public.profiles(id) on delete cascade,
+  active boolean not null default true,
+  max_uses int,
+  used_count int not null default 0,
+  expires_at timestamptz,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint workspace_invites_max_uses_check check (max_uses is null or max_uses > 0),
+  constraint workspace_invites_used_count_check check (used_count >= 0)
+);
+
+create index if not exists workspace_invites_workspace_idx
+  on public.workspace_invites (workspace_id, active, created_at desc);
+
+alter table public.workspace_invites enable row level security;
+
+drop policy if exists "workspace_invites_select_owner" on public.workspace_invites;
+create policy "workspace_invites_select_owner"
+  on public.workspace_invites
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.workspace_members wm
+      where wm.workspace_id = workspace_invites.workspace_id
+        and wm.user_id = (select auth.uid())
+        and wm.role = 'owner'
+    )
+  );
+
+grant select on public.workspace_invites to authenticated;
+
+create or replace function public.create_workspace_invite(
+  p_workspace_id bigint,
+  p_max_uses int default null,
+  p_expires_in_minutes int default 10080
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_token text;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = p_workspace_id
+      and wm.user_id = v_uid
+      and wm.role = 'owner'
+  ) then
+    raise exception 'Only workspace owners can invite people';
+  end if;
+
+  v_token := replace(gen_random_uuid()::text, '-', '');
+
+  insert into public.workspace_invites(workspace_id, token, created_by, max_uses, expires_at)
+  values (
+    p_workspace_id,
+    v_token,
+    v_uid,
+    case when p_max_uses is null or p_max_uses <= 0 then null else p_max_uses end,
+    case
+      when p_expires_in_minutes is null or p_expires_in_minutes <= 0 then null
+      else timezone('utc', now()) + make_interval(mins => p_expires_in_minutes)
+    end
+  );
+
+  return v_token;
+end;
+$$;
+
+grant execute on function public.create_workspace_invite(bigint, int, int) to authenticated;
+
+create or replace function public.accept_workspace_invite(p_token text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_invite record;
+  v_joined int;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select id, workspace_id, active, max_uses, used_count, expires_at
+  into v_invite
+  from public.workspace_invites
+  where token = p_token
+  for update;
+
+  if not found then
+    raise exception 'Invite not found';
+  end if;
+
+  if public.is_workspace_member(v_invite.workspace_id) then
+    return v_invite.workspace_id;
+  end if;
+
+  if v_invite.active is not true then
+    raise exception 'Invite is inactive';
+  end if;
+
+  if v_invite.expires_at is not null and v_invite.expires_at < timezone('utc', now()) then
+    raise exception 'Invite expired';
+  end if;
+
+  if v_invite.max_uses is not null and v_invite.used_count >= v_invite.max_uses then
+    raise exception 'Invite usage limit reached';
+  end if;
+
+  insert into public.workspace_members(workspace_id, user_id)
+  values (v_invite.workspace_id, v_uid)
+  on conflict do nothing;
+  get diagnostics v_joined = row_count;
+
+  if v_joined > 0 then
+    update public.workspace_invites
+    set used_count = used_count + 1
+    where id = v_invite.id;
+  end if;
+
+  return v_invite.workspace_id;
+end;
+$$;
+
+grant execute on function public.accept_workspace_invite(text) to authenticated;
+
+-- Leaving a workspace leaves all of its rooms. The last owner hands over to the longest-standing
+-- member; nobody can leave the only workspace they belong to.
+create or replace function public.leave_workspace(p_workspace_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_role text;
+  v_conversation_id bigint;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select wm.role into v_role
+  from public.workspace_members wm
+  where wm.workspace_id = p_workspace_id
+    and wm.user_id = v_uid
+  for update;
+
+  if not found then
+    raise exception 'Not a member of this workspace';
+  end if;
+
+  if not exists (
+    select 1
+    from public.workspace_members wm
+    where wm.user_id = v_uid
+      and wm.workspace_id <> p_workspace_id
+  ) then
+    raise exception 'You cannot leave your only workspace';
+  end if;
+
+  for v_conversation_id in
+    select m.conversation_id
+    from public.conversation_members m
+    join public.conversations c on c.id = m.conversation_id
+    where c.workspace_id = p_workspace_id
+      and m.user_id = v_uid
+  loop
+    delete from public.conversation_members
+    where conversation_id = v_conversation_id
+      and user_id = v_uid;
+    perform public.end_member_calls(v_conversation_id, v_uid);
+  end loop;
+
+  delete from public.workspace_members
+  where workspace_id = p_workspace_id
+    and user_id = v_uid;
+
+  if v_role = 'owner' and not exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = p_workspace_id
+      and wm.role = 'owner'
+  ) then
+    update public.workspace_members wm
+    set role = 'owner'
+    where (wm.workspace_id, wm.user_id) = (
+      select next.workspace_id, next.user_id
+      from public.workspace_members next
+      where next.workspace_id = p_workspace_id
+      order by next.joined_at, next.user_id
+      limit 1
+    );
+  end if;
+end;
+$$;
+
+grant execute on function public.leave_workspace(bigint) to authenticated;
+
+-- Room invites only admit people who already belong to the room's workspace.
+create or replace function public.accept_room_invite(p_token text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_invite record;
+  v_joined int;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select i.id, i.conversation_id, i.active, i.max_uses, i.used_count, i.expires_at, c.workspace_id
+  into v_invite
+  from public.room_invites i
+  join public.conversations c on c.id = i.conversation_id
+  where i.token = p_token
+  for update of i;
+
+  if not found then
+    raise exception 'Invite not found';
+  end if;
+
+  if not public.is_workspace_member(v_invite.workspace_id) then
+    raise exception 'Join this room''s workspace before using the invite';
+  end if;
+
+  if exists (
+    select 1
+    from public.conversation_bans b
+    where b.conversation_id = v_invite.conversation_id
+      and b.user_id = v_uid
+  ) then
+    raise exception 'You have been banned from this room';
+  end if;
+
+  if exists (
+    select 1
+    from public.conversation_members m
+    where m.conversation_id = v_invite.conversation_id
+      and m.user_id = v_uid
+  ) then
+    return v_invite.conversation_id;
+  end if;
+
+  if v_invite.active is not true then
+    raise exception 'Invite is inactive';
+  end if;
+
+  if v_invite.expires_at is not null and v_invite.expires_at < timezone('utc', now()) then
+    raise exception 'Invite expired';
+  end if;
+
+  if v_invite.max_uses is not null and v_invite.used_count >= v_invite.max_uses then
+    raise exception 'Invite usage limit reached';
+  end if;
+
+  insert into public.conversation_members(conversation_id, user_id)
+  values (v_invite.conversation_id, v_uid)
+  on conflict do nothing;
+  get diagnostics v_joined = row_count;
+
+  if v_joined > 0 then
+    update public.room_invites
+    set used_count = used_count + 1,
+        updated_at = timezone('utc', now())
+    where id = v_invite.id;
+
+    insert into public.room_invite_redemptions(invite_id, conversation_id, user_id)
+    values (v_invite.id, v_invite.conversation_id, v_uid);
+  end if;
+
+  return v_invite.conversation_id;
+end;
+$$;
+
+-- Both people must still belong to the workspace the DM lives in.
+create or replace function public.get_or_create_direct_conversation(
+  p_workspace_id bigint,
+  p_other_user uuid
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_key text;
+  v_conversation_id bigint;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_other_user is null or p_other_user = v_uid then
+    raise exception 'Choose someone else to message';
+  end if;
+
+  if not public.is_workspace_member(p_workspace_id) or not exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = p_workspace_id
+      and wm.user_id = p_other_user
+  ) then
+    raise exception 'You can only message people in this workspace';
+  end if;
+
+  -- People can only start DMs with someone they share a room with in this workspace.
+  if not exists (
+    select 1
+    from public.conversation_members mine
+    join public.conversations c
+      on c.id = mine.conversation_id
+     and c.workspace_id = p_workspace_id
+    join public.conversation_members theirs
+      on theirs.conversation_id = mine.conversation_id
+     and theirs.user_id = p_other_user
+    where mine.user_id = v_uid
+  ) then
+    raise exception 'You can only message people you share a room with';
+  end if;
+
+  v_key := least(v_uid::text, p_other_user::text) || ':' || greatest(v_uid::text, p_other_user::text);
+
+  insert into public.conversations(workspace_id, name, description, created_by, kind, direct_key)
+  values (p_workspace_id, 'Direct message', '', v_uid, 'direct', v_key)
+  on conflict (workspace_id, direct_key) where direct_key is not null do nothing
+  returning id into v_conversation_id;
+
+  if v_conversation_id is null then
+    select c.id into v_conversation_id
+    from public.conversations c
+    where c.workspace_id = p_workspace_id
+      and c.direct_key = v_key
+      and c.created_by in (v_uid, p_other_user)
+    for update;
+
+    -- Never hand out a DM that anyone besides the two of them can read.
+    if v_conversation_id is null or exists (
+      select 1
+      from public.conversation_members m
+      where m.conversation_id = v_conversation_id
+        and m.user_id not in (v_uid, p_other_user)
+    ) then
+      raise exception 'This conversation is not available';
+    end if;
+  end if;
+
+  -- Re-adds either side if they had left the conversation.
+  insert into public.conversation_members(conversation_id, user_id, role)
+  values (v_conversation_id, v_uid, 'member'), (v_conversation_id, p_other_user, 'member')
+  on conflict do nothing;
+
+  return v_conversation_id;
+end;
+$$;
+
+-- Room-scoped rows are only visible while the caller also belongs to the room's workspace.
+drop policy if exists "message_edits_select_member" on public.message_edits;
+create policy "message_edits_select_member"
+  on public.message_edits
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.messages msg
+      where msg.id = message_edits.message_id
+        and (select public.has_conversation_role(msg.conversation_id, 'guest'))
+    )
+  );
+
+drop policy if exists "message_reactions_select_member" on public.message_reactions;
+create policy "message_reactions_select_member"
+  on public.message_reactions
+  for select
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'guest')));
+
+drop policy if exists "message_reactions_insert_member_self" on public.message_reactions;
+create policy "message_reactions_insert_member_self"
+  on public.message_reactions
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = user_id
+    and (select public.has_conversation_role(conversation_id, 'guest'))
+    and exists (
+      select 1
+      from public.messages msg
+      where msg.id = message_reactions.message_id
+        and msg.conversation_id = message_reactions.conversation_id
+        and msg.deleted_at is null
+    )
+  );
+
+drop policy if exists "message_attachments_select_member" on public.message_attachments;
+create policy "message_attachments_select_member"
+  on public.message_attachments
+  for select
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'guest')));
+
+drop policy if exists "message_attachments_insert_sender" on public.message_attachments;
+create policy "message_attachments_insert_sender"
+  on public.message_attachments
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = uploader_id
+    and storage_path like conversation_id::text || '/' || (select auth.uid())::text || '/%'
+    and (select public.has_conversation_role(conversation_id, 'guest'))
+    and exists (
+      select 1
+      from public.messages msg
+      where msg.id = message_attachments.message_id
+        and msg.conversation_id = message_attachments.conversation_id
+        and msg.sender_id = (select auth.uid())
+    )
+  );
+
+drop policy if exists "message_attachments_objects_select_member" on storage.objects;
+create policy "message_attachments_objects_select_member"
+  on storage.objects
+  for select
+  to authenticated
+  using (
+    bucket_id = 'message-attachments'
+    and case
+      when (storage.foldername(name))[1] ~ '^[0-9]+$'
+        then public.has_conversation_role(((storage.foldername(name))[1])::bigint, 'guest')
+      else false
+    end
+  );
+
+drop policy if exists "message_attachments_objects_insert_member" on storage.objects;
+create policy "message_attachments_objects_insert_member"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (
+    bucket_id = 'message-attachments'
+    and (storage.foldername(name))[2] = (select auth.uid())::text
+    and case
+      when (storage.foldername(name))[1] ~ '^[0-9]+$'
+        then public.has_conversation_role(((storage.foldername(name))[1])::bigint, 'guest')
+      else false
+    end
+  );
+
+drop policy if exists "message_mentions_select_member" on public.message_mentions;
+create policy "message_mentions_select_member"
+  on public.message_mentions
+  for select
+  to authenticated
+  using ((select public.has_conversation_role(conversation_id, 'guest')));
+
+drop policy if exists "message_mentions_insert_sender" on public.message_mentions;
+create policy "message_mentions_insert_sender"
+  on public.message_mentions
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = mentioned_by
+    and exists (
+      select 1
+      from public.messages msg
+      where msg.id = message_mentions.message_id
+        and msg.conversation_id = message_mentions.conversation_id
+        and msg.sender_id = (select auth.uid())
+        and msg.deleted_at is null
+    )
+    and exists (
+      select 1
+      from public.conversation_members m
+      join public.conversations c on c.id = m.conversation_id
+      join public.workspace_members wm
+        on wm.workspace_id = c.workspace_id
+       and wm.user_id = m.user_id
+      where m.conversation_id = message_mentions.conversation_id
+        and m.user_id = message_mentions.mentioned_user_id
+    )
+  );
+
+-- Search and mentions take the workspace to look in, so results never cross tenants.
+drop function if exists public.search_messages(text, int);
+
+create or replace function public.search_messages(
+  p_workspace_id bigint,
+  p_query text,
+  p_limit int default 30
+)
+returns table (
+  message_id bigint,
+  conversation_id bigint,
+  conversation_name text,
+  parent_message_id bigint,
+  also_sent_to_channel boolean,
+  sender_name text,
+  snippet text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_query tsquery;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'Not a member of this workspace';
+  end if;
+
+  if p_query is null or char_length(trim(p_query)) < 2 then
+    return;
+  end if;
+
+  v_query := websearch_to_tsquery('simple', p_query);
+  if numnode(v_query) = 0 then
+    return;
+  end if;
+
+  return query
+  select
+    msg.id,
+    msg.conversation_id,
+    c.name,
+    msg.parent_message_id,
+    msg.also_sent_to_channel,
+    coalesce(nullif(trim(p.full_name), ''), 'Member'),
+    ts_headline(
+      'simple',
+      msg.content,
+      v_query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=24, MinWords=8, MaxFragments=2'
+    ),
+    msg.created_at
+  from public.messages msg
+  join public.conversation_members m
+    on m.conversation_id = msg.conversation_id
+   and m.user_id = v_uid
+  join public.conversations c
+    on c.id = msg.conversation_id
+   and c.workspace_id = p_workspace_id
+  left join public.profiles p on p.id = msg.sender_id
+  where msg.content_tsv @@ v_query
+    and msg.deleted_at is null
+  order by ts_rank(msg.content_tsv, v_query) desc, msg.created_at desc
+  limit least(greatest(coalesce(p_limit, 30), 1), 100);
+end;
+$$;
+
+grant execute on function public.search_messages(bigint, text, int) to authenticated;
+
+drop function if exists public.list_unread_mentions(int);
+
+create or replace function public.list_unread_mentions(
+  p_workspace_id bigint,
+  p_limit int default 50
+)
+returns table (
+  message_id bigint,
+  conversation_id bigint,
+  conversation_name text,
+  parent_message_id bigint,
+  also_sent_to_channel boolean,
+  sender_name text,
+  content text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'Not a member of this workspace';
+  end if;
+
+  return query
+  select
+    msg.id,
+    msg.conversation_id,
+    c.name,
+    msg.parent_message_id,
+    msg.also_sent_to_channel,
+    coalesce(nullif(trim(p.full_name), ''), 'Member'),
+    msg.content,
+    msg.created_at
+  from public.message_mentions mm
+  join public.messages msg on msg.id = mm.message_id
+  join public.conversation_members m
+    on m.conversation_id = mm.conversation_id
+   and m.user_id = v_uid
+  join public.conversations c
+    on c.id = mm.conversation_id
+   and c.workspace_id = p_workspace_id
+  left join public.profiles p on p.id = msg.sender_id
+  where mm.mentioned_user_id = v_uid
+    and msg.deleted_at is null
+    and msg.created_at > coalesce(m.last_read_at, m.joined_at)
+  order by msg.created_at desc
+  limit least(greatest(coalesce(p_limit, 50), 1), 200);
+end;
+$$;
+
+grant execute on function public.list_unread_mentions(bigint, int) to authenticated;
+
+create or replace function public.get_unread_counts()
+returns table (
+  conversation_id bigint,
+  unread_count int,
+  last_read_message_id bigint,
+  last_read_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    m.conversation_id,
+    coalesce(unread.message_count, 0),
+    m.last_read_message_id,
+    m.last_read_at
+  from public.conversation_members m
+  join public.conversations c on c.id = m.conversation_id
+  join public.workspace_members wm
+    on wm.workspace_id = c.workspace_id
+   and wm.user_id = m.user_id
+  left join lateral (
+    select count(*)::int as message_count
+    from public.messages msg
+    where msg.conversation_id = m.conversation_id
+      and msg.created_at > coalesce(m.last_read_at, m.joined_at)
+      and msg.sender_id <> v_uid
+      and msg.deleted_at is null
+      and (msg.parent_message_id is null or msg.also_sent_to_channel)
+  ) unread on true
+  where m.user_id = v_uid;
+end;
+$$;
+
+create or replace function public.list_room_read_receipts(p_conversation_id bigint)
+returns table (
+  user_id uuid,
+  full_name text,
+  last_read_message_id bigint,
+  last_read_at timestamptz,
+  read_updated_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.has_conversation_role(p_conversation_id, 'guest') then
+    raise exception 'Not a member of this room';
+  end if;
+
+  return query
+  select
+    m.user_id,
+    coalesce(nullif(trim(p.full_name), ''), 'Member'),
+    m.last_read_message_id,
+    m.last_read_at,
+    m.read_updated_at
+  from public.conversation_members m
+  join public.profiles p on p.id = m.user_id
+  where m.conversation_id = p_conversation_id
+    and m.last_read_message_id is not null;
+end;
+$$;
+
+create or replace function public.list_room_last_seen(p_conversation_id bigint)
+returns table (
+  user_id uuid,
+  full_name text,
+  last_seen_at timestamptz,
+  role text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.has_conversation_role(p_conversation_id, 'guest') then
+    raise exception 'Not a member of this room';
+  end if;
+
+  return query
+  select m.user_id, p.full_name, p.last_seen_at, m.role
+  from public.conversation_members m
+  join public.profiles p on p.id = m.user_id
+  where m.conversation_id = p_conversation_id
+  order by public.conversation_role_rank(m.role) desc, p.full_name;
+end;
+$$;
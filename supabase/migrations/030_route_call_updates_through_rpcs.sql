@@ -0,0 +1,93 @@
+-- Call state only changes through join_call, leave_call, reject_call and cancel_call. A direct
+-- update let any guest mark a live group call as ended for everyone.
+drop policy if exists "call_requests_update_member" on public.call_requests;
+revoke update on public.call_requests from authenticated;
+
+-- New calls always start out pending and unanswered.
+drop policy if exists "call_requests_insert_requester_member" on public.call_requests;
+create policy "call_requests_insert_requester_member"
+  on public.call_requests
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = requester_id
+    and status = 'pending'
+    and accepted_by is null
+    and (select public.has_conversation_role(conversation_id, 'member'))
+    and not exists (
+      select 1
+      from public.conversations c
+      where c.id = call_requests.conversation_id
+        and c.archived_at is not null
+    )
+  );
+
+-- Declining only means something in a DM, where the caller waits on exactly one person.
+create or replace function public.reject_call(p_call_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_call record;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select cr.id, cr.conversation_id, cr.requester_id, cr.status, c.kind
+  into v_call
+  from public.call_requests cr
+  join public.conversations c on c.id = cr.conversation_id
+  where cr.id = p_call_id
+  for update of cr;
+
+  if not found or not public.has_conversation_role(v_call.conversation_id, 'guest') then
+    raise exception 'Call not found';
+  end if;
+
+  if v_call.kind <> 'direct' or v_call.status <> 'pending' or v_call.requester_id = v_uid then
+    raise exception 'This call cannot be declined';
+  end if;
+
+  update public.call_requests
+  set status = 'rejected',
+      accepted_by = v_uid,
+      updated_at = timezone('utc', now())
+  where id = p_call_id;
+end;
+$$;
+
+grant execute on function public.reject_call(bigint) to authenticated;
+
+create or replace function public.cancel_call(p_call_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  update public.call_requests
+  set status = 'cancelled',
+      updated_at = timezone('utc', now())
+  where id = p_call_id
+    and requester_id = v_uid
+    and status = 'pending';
+
+  if not found then
+    raise exception 'Only the caller can cancel a call nobody has picked up';
+  end if;
+end;
+$$;
+
+grant execute on function public.cancel_call(bigint) to authenticated;
@@ -0,0 +1,158 @@
+-- Clients in a call send a heartbeat; anyone who stops (closed tab, crashed join) is taken
+-- out of the call so they stop holding a slot and the call can finish once it is empty.
+alter table public.call_participants
+  add column if not exists last_seen_at timestamptz not null default timezone('utc', now());
+
+-- Keep in sync with callHeartbeatMs in App.tsx (three missed heartbeats).
+create or replace function public.call_participant_timeout()
+returns interval
+language sql
+immutable
+as $$
+  select interval '45 seconds';
+$$;
+
+create or replace function public.expire_call_participants(p_call_id bigint default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conversation_id bigint;
+begin
+  for v_conversation_id in
+    update public.call_participants p
+    set left_at = greatest(p.last_seen_at, p.joined_at)
+    where p.left_at is null
+      and p.last_seen_at < timezone('utc', now()) - public.call_participant_timeout()
+      and (p_call_id is null or p.call_id = p_call_id)
+    returning p.conversation_id
+  loop
+    perform public.finish_empty_calls(v_conversation_id);
+  end loop;
+end;
+$$;
+
+revoke execute on function public.expire_call_participants(bigint) from public, anon, authenticated;
+
+create or replace function public.touch_call(p_call_id bigint)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  update public.call_participants
+  set last_seen_at = timezone('utc', now())
+  where call_id = p_call_id
+    and user_id = v_uid
+    and left_at is null;
+
+  if not found then
+    return false;
+  end if;
+
+  perform public.expire_call_participants(p_call_id);
+  return true;
+end;
+$$;
+
+grant execute on function public.touch_call(bigint) to authenticated;
+
+create or replace function public.join_call(p_call_id bigint)
+returns table (
+  user_id uuid,
+  joined_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_call record;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Ghosts must not count towards the limit or keep a dead call open.
+  perform public.expire_call_participants(p_call_id);
+
+  select cr.id, cr.conversation_id, cr.requester_id, cr.accepted_by, cr.status
+  into v_call
+  from public.call_requests cr
+  where cr.id = p_call_id
+  for update;
+
+  if not found or v_call.status not in ('pending', 'accepted') then
+    raise exception 'This call has ended';
+  end if;
+
+  if not public.has_conversation_role(v_call.conversation_id, 'member') then
+    raise exception 'Only room members can join calls';
+  end if;
+
+  if not exists (
+    select 1
+    from public.call_participants p
+    where p.call_id = p_call_id
+      and p.user_id = v_uid
+      and p.left_at is null
+  ) then
+    if (
+      select count(*)
+      from public.call_participants p
+      where p.call_id = p_call_id
+        and p.left_at is null
+    ) >= public.max_call_participants() then
+      raise exception 'This call is full';
+    end if;
+
+    insert into public.call_participants(call_id, conversation_id, user_id)
+    values (p_call_id, v_call.conversation_id, v_uid);
+  else
+    update public.call_participants p
+    set last_seen_at = timezone('utc', now())
+    where p.call_id = p_call_id
+      and p.user_id = v_uid
+      and p.left_at is null;
+  end if;
+
+  if v_call.status = 'pending' and v_uid <> v_call.requester_id then
+    update public.call_requests
+    set status = 'accepted',
+        accepted_by = coalesce(accepted_by, v_uid),
+        updated_at = timezone('utc', now())
+    where id = p_call_id;
+  end if;
+
+  return query
+  select p.user_id, p.joined_at
+  from public.call_participants p
+  where p.call_id = p_call_id
+    and p.left_at is null
+  order by p.joined_at;
+end;
+$$;
+
+-- Calls nobody is heartbeating in still get cleaned up where pg_cron is available.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'expire-call-participants',
+      '* * * * *',
+      'select public.expire_call_participants()'
+    );
+  end if;
+end $$;
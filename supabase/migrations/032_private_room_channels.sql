@@ -0,0 +1,37 @@
+-- Typing and membership broadcasts move to a private channel per room, topic
+-- "room:<conversations.id>", so only people in the room can listen or send.
+create or replace function public.can_access_room_channel(p_topic text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when p_topic ~ '^room:[0-9]+$'
+      then public.has_conversation_role(substring(p_topic from 6)::bigint, 'guest')
+    else false
+  end;
+$$;
+
+grant execute on function public.can_access_room_channel(text) to authenticated;
+
+drop policy if exists "room_channel_select_member" on realtime.messages;
+create policy "room_channel_select_member"
+  on realtime.messages
+  for select
+  to authenticated
+  using (
+    realtime.messages.extension = 'broadcast'
+    and (select public.can_access_room_channel(realtime.topic()))
+  );
+
+drop policy if exists "room_channel_insert_member" on realtime.messages;
+create policy "room_channel_insert_member"
+  on realtime.messages
+  for insert
+  to authenticated
+  with check (
+    realtime.messages.extension = 'broadcast'
+    and (select public.can_access_room_channel(realtime.topic()))
+  );
@@ -0,0 +1,35 @@
+-- Room presence moves to a private channel too, topic "presence:<conversations.id>", so
+-- nobody outside a room can see who is in it or announce themselves there.
+create or replace function public.can_access_room_channel(p_topic text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when p_topic ~ '^(room|presence):[0-9]+$'
+      then public.has_conversation_role(split_part(p_topic, ':', 2)::bigint, 'guest')
+    else false
+  end;
+$$;
+
+drop policy if exists "room_channel_select_member" on realtime.messages;
+create policy "room_channel_select_member"
+  on realtime.messages
+  for select
+  to authenticated
+  using (
+    realtime.messages.extension in ('broadcast', 'presence')
+    and (select public.can_access_room_channel(realtime.topic()))
+  );
+
+drop policy if exists "room_channel_insert_member" on realtime.messages;
+create policy "room_channel_insert_member"
+  on realtime.messages
+  for insert
+  to authenticated
+  with check (
+    realtime.messages.extension in ('broadcast', 'presence')
+    and (select public.can_access_room_channel(realtime.topic()))
+  );
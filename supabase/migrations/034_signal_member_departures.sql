@@ -0,0 +1,65 @@
+-- Realtime does not apply RLS to DELETE events, so subscribing to deletes on
+-- conversation_members told every client about every removal. Departures are now
+-- recorded as rows whose INSERT events are filtered like any other read.
+create table if not exists public.conversation_departures (
+  id bigint generated by default as identity primary key,
+  -- No foreign keys: the rows are written while a deleted room or profile cascades to its members.
+  conversation_id bigint not null,
+  user_id uuid not null,
+  departed_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists conversation_departures_departed_at_idx
+  on public.conversation_departures (departed_at);
+
+alter table public.conversation_departures enable row level security;
+
+-- The person who left sees their own departure; everyone still in the room sees theirs.
+drop policy if exists "conversation_departures_select_involved" on public.conversation_departures;
+create policy "conversation_departures_select_involved"
+  on public.conversation_departures
+  for select
+  to authenticated
+  using (
+    (select auth.uid()) = user_id
+    or (select public.has_conversation_role(conversation_id, 'guest'))
+  );
+
+create or replace function public.record_conversation_departure()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.conversation_departures(conversation_id, user_id)
+  values (old.conversation_id, old.user_id);
+
+  -- The rows only exist to be streamed; keep a day for clients catching up.
+  delete from public.conversation_departures
+  where departed_at < timezone('utc', now()) - interval '1 day';
+
+  return old;
+end;
+$$;
+
+revoke execute on function public.record_conversation_departure() from public, anon, authenticated;
+
+drop trigger if exists conversation_members_after_delete_departure on public.conversation_members;
+create trigger conversation_members_after_delete_departure
+  after delete on public.conversation_members
+  for each row
+  execute function public.record_conversation_departure();
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'conversation_departures'
+  ) then
+    alter publication supabase_realtime add table public.conversation_departures;
+  end if;
+end $$;
@@ -0,0 +1,99 @@
+-- A message and its attachment rows are written in one transaction, so a failure never
+-- leaves a post whose files are missing. Runs as the caller: the usual insert policies
+-- on messages and message_attachments still decide what is allowed.
+create or replace function public.send_message(
+  p_conversation_id bigint,
+  p_content text,
+  p_attachments jsonb default '[]'::jsonb
+)
+returns table (
+  id bigint,
+  created_at timestamptz
+)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_message_id bigint;
+  v_created_at timestamptz;
+  v_attachment_count int;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_attachment_count := jsonb_array_length(coalesce(p_attachments, '[]'::jsonb));
+
+  insert into public.messages(conversation_id, sender_id, content, has_attachments)
+  values (p_conversation_id, v_uid, coalesce(p_content, ''), v_attachment_count > 0)
+  returning messages.id, messages.created_at into v_message_id, v_created_at;
+
+  if v_attachment_count > 0 then
+    if exists (
+      select 1
+      from jsonb_to_recordset(p_attachments) as a(storage_path text)
+      where not exists (
+        select 1
+        from storage.objects o
+        where o.bucket_id = 'message-attachments'
+          and o.name = a.storage_path
+      )
+    ) then
+      raise exception 'An attachment did not finish uploading';
+    end if;
+
+    insert into public.message_attachments(
+      message_id,
+      conversation_id,
+      uploader_id,
+      storage_path,
+      file_name,
+      mime_type,
+      size_bytes,
+      width,
+      height
+    )
+    select
+      v_message_id,
+      p_conversation_id,
+      v_uid,
+      a.storage_path,
+      a.file_name,
+      a.mime_type,
+      a.size_bytes,
+      a.width,
+      a.height
+    from jsonb_to_recordset(p_attachments) as a(
+      storage_path text,
+      file_name text,
+      mime_type text,
+      size_bytes bigint,
+      width int,
+      height int
+    );
+  end if;
+
+  return query select v_message_id, v_created_at;
+end;
+$$;
+
+revoke execute on function public.send_message(bigint, text, jsonb) from public, anon;
+grant execute on function public.send_message(bigint, text, jsonb) to authenticated;
+
+-- Room admins can delete anyone's message, so they can also remove its files.
+drop policy if exists "message_attachments_objects_delete_moderator" on storage.objects;
+create policy "message_attachments_objects_delete_moderator"
+  on storage.objects
+  for delete
+  to authenticated
+  using (
+    bucket_id = 'message-attachments'
+    and case
+      when (storage.foldername(name))[1] ~ '^[0-9]+$'
+        then public.has_conversation_role(((storage.foldername(name))[1])::bigint, 'admin')
+      else false
+    end
+  );
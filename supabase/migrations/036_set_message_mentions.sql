@@ -0,0 +1,56 @@
+-- Replaces the mentions recorded for a message, so an edit that drops or adds an
+-- @name updates who gets notified. People still mentioned keep their original row.
+create or replace function public.set_message_mentions(
+  p_message_id bigint,
+  p_user_ids uuid[]
+)
+returns setof uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_message record;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select msg.id, msg.conversation_id
+  into v_message
+  from public.messages msg
+  where msg.id = p_message_id
+    and msg.sender_id = v_uid
+    and msg.deleted_at is null;
+
+  if not found then
+    raise exception 'Only the sender can change who a message mentions';
+  end if;
+
+  delete from public.message_mentions mm
+  where mm.message_id = p_message_id
+    and not (mm.mentioned_user_id = any(coalesce(p_user_ids, '{}')));
+
+  -- Only people who can actually read the room are recorded.
+  insert into public.message_mentions(message_id, conversation_id, mentioned_user_id, mentioned_by)
+  select p_message_id, v_message.conversation_id, m.user_id, v_uid
+  from public.conversation_members m
+  join public.conversations c on c.id = m.conversation_id
+  join public.workspace_members wm
+    on wm.workspace_id = c.workspace_id
+   and wm.user_id = m.user_id
+  where m.conversation_id = v_message.conversation_id
+    and m.user_id = any(coalesce(p_user_ids, '{}'))
+    and m.user_id <> v_uid
+  on conflict (message_id, mentioned_user_id) do nothing;
+
+  return query
+  select mm.mentioned_user_id
+  from public.message_mentions mm
+  where mm.message_id = p_message_id;
+end;
+$$;
+
+grant execute on function public.set_message_mentions(bigint, uuid[]) to authenticated;
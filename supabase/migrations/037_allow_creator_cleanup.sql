@@ -0,0 +1,16 @@
+-- Deleting a profile sets conversations.created_by to null through the foreign key, and
+-- that cascade runs the identity trigger; clearing the creator must still be allowed.
+create or replace function public.protect_conversation_identity()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.kind is distinct from old.kind
+    or new.direct_key is distinct from old.direct_key
+    or new.workspace_id is distinct from old.workspace_id
+    or (new.created_by is not null and new.created_by is distinct from old.created_by) then
+    raise exception 'A conversation''s kind, owner and workspace cannot change';
+  end if;
+  return new;
+end;
+$$;
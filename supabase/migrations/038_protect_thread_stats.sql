@@ -0,0 +1,117 @@
+-- Reply counts and the last replier are derived from real replies only: clients cannot
+-- set them when posting, and only bump_thread_stats (which runs inside the insert
+-- trigger of a reply) can change them afterwards.
+create or replace function public.handle_message_reply_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_parent record;
+begin
+  new.reply_count := 0;
+  new.last_reply_at := null;
+  new.last_reply_sender_id := null;
+
+  if new.parent_message_id is null then
+    new.also_sent_to_channel := false;
+    return new;
+  end if;
+
+  select id, conversation_id, parent_message_id
+  into v_parent
+  from public.messages
+  where id = new.parent_message_id;
+
+  if not found then
+    raise exception 'Parent message not found';
+  end if;
+
+  if v_parent.conversation_id <> new.conversation_id then
+    raise exception 'Reply must be in the same room as its parent';
+  end if;
+
+  -- Threads are one level deep: replying to a reply lands in the root thread.
+  if v_parent.parent_message_id is not null then
+    new.parent_message_id := v_parent.parent_message_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Recount existing threads so any forged values are replaced. This runs before the
+-- update trigger below starts keeping these columns as they are.
+update public.messages parent
+set reply_count = coalesce(stats.reply_count, 0),
+    last_reply_at = stats.last_reply_at,
+    last_reply_sender_id = stats.last_reply_sender_id
+from (
+  select p.id,
+         count(r.id)::int as reply_count,
+         max(r.created_at) as last_reply_at,
+         (
+           select r2.sender_id
+           from public.messages r2
+           where r2.parent_message_id = p.id
+           order by r2.created_at desc, r2.id desc
+           limit 1
+         ) as last_reply_sender_id
+  from public.messages p
+  left join public.messages r on r.parent_message_id = p.id
+  where p.parent_message_id is null
+  group by p.id
+) stats
+where parent.id = stats.id
+  and (
+    parent.reply_count is distinct from coalesce(stats.reply_count, 0)
+    or parent.last_reply_at is distinct from stats.last_reply_at
+    or parent.last_reply_sender_id is distinct from stats.last_reply_sender_id
+  );
+
+create or replace function public.handle_message_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- A direct update runs this trigger at depth 1; bump_thread_stats updates from inside
+  -- another trigger.
+  if pg_trigger_depth() < 2 then
+    new.reply_count := old.reply_count;
+    new.last_reply_at := old.last_reply_at;
+    new.last_reply_sender_id := old.last_reply_sender_id;
+  end if;
+
+  if new.content is not distinct from old.content
+    and new.deleted_at is not distinct from old.deleted_at then
+    return new;
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Message was deleted';
+  end if;
+
+  if new.deleted_at is not null then
+    new.deleted_at := timezone('utc', now());
+    new.content := '';
+    delete from public.message_edits where message_id = old.id;
+    delete from public.message_attachments where message_id = old.id;
+    return new;
+  end if;
+
+  if auth.uid() is not null and auth.uid() <> old.sender_id then
+    raise exception 'Only the sender can edit this message';
+  end if;
+
+  if new.content is distinct from old.content then
+    insert into public.message_edits(message_id, editor_id, previous_content)
+    values (old.id, coalesce(auth.uid(), old.sender_id), old.content);
+    new.edited_at := timezone('utc', now());
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,78 @@
+-- Guests can answer and join calls; only starting one needs the member role.
+create or replace function public.join_call(p_call_id bigint)
+returns table (
+  user_id uuid,
+  joined_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid;
+  v_call record;
+begin
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Ghosts must not count towards the limit or keep a dead call open.
+  perform public.expire_call_participants(p_call_id);
+
+  select cr.id, cr.conversation_id, cr.requester_id, cr.accepted_by, cr.status
+  into v_call
+  from public.call_requests cr
+  where cr.id = p_call_id
+  for update;
+
+  if not found or v_call.status not in ('pending', 'accepted') then
+    raise exception 'This call has ended';
+  end if;
+
+  if not public.has_conversation_role(v_call.conversation_id, 'guest') then
+    raise exception 'Only people in this room can join calls';
+  end if;
+
+  if not exists (
+    select 1
+    from public.call_participants p
+    where p.call_id = p_call_id
+      and p.user_id = v_uid
+      and p.left_at is null
+  ) then
+    if (
+      select count(*)
+      from public.call_participants p
+      where p.call_id = p_call_id
+        and p.left_at is null
+    ) >= public.max_call_participants() then
+      raise exception 'This call is full';
+    end if;
+
+    insert into public.call_participants(call_id, conversation_id, user_id)
+    values (p_call_id, v_call.conversation_id, v_uid);
+  else
+    update public.call_participants p
+    set last_seen_at = timezone('utc', now())
+    where p.call_id = p_call_id
+      and p.user_id = v_uid
+      and p.left_at is null;
+  end if;
+
+  if v_call.status = 'pending' and v_uid <> v_call.requester_id then
+    update public.call_requests
+    set status = 'accepted',
+        accepted_by = coalesce(accepted_by, v_uid),
+        updated_at = timezone('utc', now())
+    where id = p_call_id;
+  end if;
+
+  return query
+  select p.user_id, p.joined_at
+  from public.call_participants p
+  where p.call_id = p_call_id
+    and p.left_at is null
+  order by p.joined_at;
+end;
+$$;
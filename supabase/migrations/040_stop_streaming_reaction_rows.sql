@@ -0,0 +1,17 @@
+-- Realtime does not apply RLS to DELETE events, so every subscriber saw every reaction
+-- removal in every workspace. Reaction changes are now announced on the private room
+-- channel and each client re-reads the message's reactions through RLS.
+do $$
+begin
+  if exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'message_reactions'
+  ) then
+    alter publication supabase_realtime drop table public.message_reactions;
+  end if;
+end $$;
+
+alter table public.message_reactions replica identity default;
@@ -0,0 +1,101 @@
+-- conversation_members stayed in the realtime publication after 034, so anyone could
+-- still subscribe to its unfiltered DELETE events. The table leaves the publication and
+-- every membership change (join, leave, role, read position) is streamed as a row in
+-- conversation_member_events instead, whose INSERT events are filtered by RLS.
+do $$
+begin
+  if exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'conversation_members'
+  ) then
+    alter publication supabase_realtime drop table public.conversation_members;
+  end if;
+end $$;
+
+drop trigger if exists conversation_members_after_delete_departure on public.conversation_members;
+drop function if exists public.record_conversation_departure();
+
+-- The renamed table keeps its place in the realtime publication.
+alter table public.conversation_departures rename to conversation_member_events;
+alter table public.conversation_member_events rename column departed_at to created_at;
+alter index if exists public.conversation_departures_departed_at_idx
+  rename to conversation_member_events_created_at_idx;
+
+alter table public.conversation_member_events
+  add column if not exists kind text not null default 'left'
+    check (kind in ('joined', 'left', 'role', 'read')),
+  add column if not exists role text,
+  add column if not exists last_read_message_id bigint,
+  add column if not exists last_read_at timestamptz,
+  add column if not exists read_updated_at timestamptz;
+
+alter table public.conversation_member_events alter column kind drop default;
+
+drop policy if exists "conversation_departures_select_involved" on public.conversation_member_events;
+drop policy if exists "conversation_member_events_select_involved" on public.conversation_member_events;
+create policy "conversation_member_events_select_involved"
+  on public.conversation_member_events
+  for select
+  to authenticated
+  using (
+    (select auth.uid()) = user_id
+    or (select public.has_conversation_role(conversation_id, 'guest'))
+  );
+
+create or replace function public.record_conversation_member_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    insert into public.conversation_member_events(conversation_id, user_id, kind)
+    values (old.conversation_id, old.user_id, 'left');
+  elsif tg_op = 'INSERT' then
+    insert into public.conversation_member_events(conversation_id, user_id, kind, role)
+    values (new.conversation_id, new.user_id, 'joined', new.role);
+  elsif new.role is distinct from old.role
+    or new.last_read_message_id is distinct from old.last_read_message_id
+    or new.last_read_at is distinct from old.last_read_at
+    or new.read_updated_at is distinct from old.read_updated_at then
+    insert into public.conversation_member_events(
+      conversation_id,
+      user_id,
+      kind,
+      role,
+      last_read_message_id,
+      last_read_at,
+      read_updated_at
+    )
+    values (
+      new.conversation_id,
+      new.user_id,
+      case when new.role is distinct from old.role then 'role' else 'read' end,
+      new.role,
+      new.last_read_message_id,
+      new.last_read_at,
+      new.read_updated_at
+    );
+  else
+    return null;
+  end if;
+
+  -- The rows only exist to be streamed; keep a day for clients catching up.
+  delete from public.conversation_member_events
+  where created_at < timezone('utc', now()) - interval '1 day';
+
+  return null;
+end;
+$$;
+
+revoke execute on function public.record_conversation_member_event() from public, anon, authenticated;
+
+drop trigger if exists conversation_members_after_change_event on public.conversation_members;
+create trigger conversation_members_after_change_event
+  after insert or update or delete on public.conversation_members
+  for each row
+  execute function public.record_conversation_member_event();